@@ -0,0 +1,146 @@
+import {decodeDocuments, encodeDocuments} from "./firestore-utils";
+
+export interface PersistenceStorage {
+    getItem(key: string): Promise<string | null>;
+
+    setItem(key: string, value: string): Promise<void>;
+
+    removeItem(key: string): Promise<void>;
+}
+
+export class MemoryPersistenceStorage implements PersistenceStorage {
+
+    protected items: Map<string, string> = new Map();
+
+    async getItem(key: string): Promise<string | null> {
+        return this.items.has(key) ? this.items.get(key)! : null;
+    }
+
+    async setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+
+    async removeItem(key: string) {
+        this.items.delete(key);
+    }
+
+}
+
+export class LocalPersistenceStorage implements PersistenceStorage {
+
+    constructor(protected readonly storage: Storage = localStorage) {
+    }
+
+    async getItem(key: string): Promise<string | null> {
+        return this.storage.getItem(key);
+    }
+
+    async setItem(key: string, value: string) {
+        this.storage.setItem(key, value);
+    }
+
+    async removeItem(key: string) {
+        this.storage.removeItem(key);
+    }
+
+}
+
+export class IndexedDBPersistenceStorage implements PersistenceStorage {
+
+    protected database: Promise<IDBDatabase> | null = null;
+
+    constructor(readonly databaseName: string = "firestore-persistence", readonly storeName: string = "collections") {
+    }
+
+    async getItem(key: string): Promise<string | null> {
+        let value = await this.request("readonly", store => store.get(key));
+
+        return typeof value === "string" ? value : null;
+    }
+
+    async setItem(key: string, value: string) {
+        await this.request("readwrite", store => store.put(value, key));
+    }
+
+    async removeItem(key: string) {
+        await this.request("readwrite", store => store.delete(key));
+    }
+
+    protected openDatabase(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                let request = indexedDB.open(this.databaseName, 1);
+
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+
+        return this.database;
+    }
+
+    protected async request(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+        let database = await this.openDatabase();
+
+        return new Promise((resolve, reject) => {
+            let request = operation(database.transaction(this.storeName, mode).objectStore(this.storeName));
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+}
+
+export type CollectionPersistenceOptions = {
+    storage: PersistenceStorage;
+    key?: string;
+    version?: string | number;
+    ttl?: number;
+};
+
+type PersistedCollection = {
+    version: string | number | null;
+    savedAt: number;
+    list: object[];
+};
+
+export function getPersistenceKey(collectionPath: string, options: CollectionPersistenceOptions): string {
+    return options.key || `firestore-collection:${collectionPath}`;
+}
+
+export async function persistCollection<T extends object>(collectionPath: string, list: T[], options: CollectionPersistenceOptions) {
+    let persisted: PersistedCollection = {
+        version: options.version ?? null,
+        savedAt: Date.now(),
+        list: encodeDocuments(list)
+    };
+
+    await options.storage.setItem(getPersistenceKey(collectionPath, options), JSON.stringify(persisted));
+}
+
+export async function loadPersistedCollection<T extends object>(collectionPath: string, options: CollectionPersistenceOptions): Promise<T[] | null> {
+    let key = getPersistenceKey(collectionPath, options);
+    let text = await options.storage.getItem(key);
+
+    if (text === null) return null;
+
+    let persisted: PersistedCollection;
+
+    try {
+        persisted = JSON.parse(text);
+    } catch (error) {
+        await options.storage.removeItem(key);
+        return null;
+    }
+
+    let expired = options.ttl !== undefined && persisted.savedAt + options.ttl < Date.now();
+
+    if (expired || persisted.version !== (options.version ?? null) || !Array.isArray(persisted.list)) {
+        await options.storage.removeItem(key);
+        return null;
+    }
+
+    return decodeDocuments<T>(persisted.list, collectionPath);
+}
@@ -1,4 +1,5 @@
 import firebase, {firestore, functions} from "firebase/app";
+import {BatchCommitError, FirestoreOperationError} from "./firestore-errors";
 
 export function isHttpsError(error: any): error is functions.HttpsError {
     return error instanceof Object && error.code != null && error.message != null;
@@ -8,6 +9,30 @@ export function isFirestoreError(error: any): error is firestore.FirestoreError
     return error instanceof Object && error.code != null && error.message != null && error.name != null;
 }
 
+export function isFirestoreOperationError(error: any): error is FirestoreOperationError {
+    return isFirestoreError(error) && (error as any).operation != null && (error as any).path != null;
+}
+
+export function isNotFoundError(error: any): error is firestore.FirestoreError {
+    return isFirestoreError(error) && error.code === "not-found";
+}
+
+export function isPermissionDeniedError(error: any): error is firestore.FirestoreError {
+    return isFirestoreError(error) && (error.code === "permission-denied" || error.code === "unauthenticated");
+}
+
+export function isWriteConflictError(error: any): error is firestore.FirestoreError {
+    return isFirestoreError(error) && (error.code === "aborted" || error.code === "already-exists");
+}
+
+export function isValidationError(error: any): error is firestore.FirestoreError {
+    return isFirestoreError(error) && error.code === "invalid-argument";
+}
+
+export function isBatchCommitError(error: any): error is BatchCommitError {
+    return isFirestoreOperationError(error) && (error as any).result != null && Array.isArray((error as any).result.chunks);
+}
+
 export function isStorageError(error: any): error is firebase.FirebaseError {
     return error instanceof Object && error.message != null && error.name != null
         && error.code != null && error.code.startsWith("storage/");
@@ -0,0 +1,111 @@
+import {firestore} from "firebase/app";
+
+export type FirestoreOperation = "get" | "add" | "set" | "update" | "delete" | "subscribe" | "restore" | "purge" | "migrate" | "import" | "export";
+
+export class FirestoreOperationError extends Error {
+    constructor(message: string,
+                readonly code: firestore.FirestoreErrorCode,
+                readonly operation: FirestoreOperation,
+                readonly path: string,
+                readonly cause?: any) {
+        super(message);
+        this.name = "FirestoreOperationError";
+    }
+}
+
+export class DocumentNotFoundError extends FirestoreOperationError {
+    constructor(operation: FirestoreOperation, path: string, cause?: any) {
+        super(`The document ${path} does not exist.`, "not-found", operation, path, cause);
+        this.name = "DocumentNotFoundError";
+    }
+}
+
+export class PermissionDeniedError extends FirestoreOperationError {
+    constructor(operation: FirestoreOperation, path: string, cause?: any) {
+        super(`Missing permissions to ${operation} ${path}.`, cause && cause.code === "unauthenticated" ? "unauthenticated" : "permission-denied", operation, path, cause);
+        this.name = "PermissionDeniedError";
+    }
+}
+
+export class WriteConflictError extends FirestoreOperationError {
+    constructor(operation: FirestoreOperation, path: string, cause?: any) {
+        super(`The ${operation} of ${path} conflicts with the current state of the document.`, cause && cause.code ? cause.code : "aborted", operation, path, cause);
+        this.name = "WriteConflictError";
+    }
+}
+
+export class ValidationError extends FirestoreOperationError {
+    constructor(message: string, operation: FirestoreOperation, path: string, cause?: any) {
+        super(message, "invalid-argument", operation, path, cause);
+        this.name = "ValidationError";
+    }
+}
+
+export type BatchChunkStatus = "pending" | "committed" | "failed";
+
+export interface BatchChunkResult {
+    index: number;
+    operationCount: number;
+    documentPaths: string[];
+    status: BatchChunkStatus;
+    error?: any;
+}
+
+export interface BatchCommitResult {
+    operationCount: number;
+    chunks: BatchChunkResult[];
+}
+
+export class BatchCommitError extends FirestoreOperationError {
+    constructor(readonly result: BatchCommitResult, operation: FirestoreOperation) {
+        super(
+            `${getFailedChunks(result).length} of ${result.chunks.length} batches failed to commit.`,
+            getFailedChunks(result)[0]?.error?.code || "unknown",
+            operation,
+            getFailedChunks(result)[0]?.documentPaths[0] || "",
+            getFailedChunks(result)[0]?.error
+        );
+        this.name = "BatchCommitError";
+    }
+
+    get failedPaths(): string[] {
+        return ([] as string[]).concat(...getFailedChunks(this.result).map(chunk => chunk.documentPaths));
+    }
+}
+
+function getFailedChunks(result: BatchCommitResult): BatchChunkResult[] {
+    return result.chunks.filter(chunk => chunk.status === "failed");
+}
+
+export function toFirestoreOperationError(error: any, operation: FirestoreOperation, path: string): FirestoreOperationError {
+    if (error instanceof FirestoreOperationError) return error;
+
+    switch (error && error.code) {
+        case "not-found":
+            return new DocumentNotFoundError(operation, path, error);
+        case "permission-denied":
+        case "unauthenticated":
+            return new PermissionDeniedError(operation, path, error);
+        case "aborted":
+        case "already-exists":
+            return new WriteConflictError(operation, path, error);
+        case "invalid-argument":
+            return new ValidationError(error.message, operation, path, error);
+        default:
+            return new FirestoreOperationError(
+                error && error.message ? error.message : String(error),
+                error && typeof error.code === "string" ? error.code : "unknown",
+                operation,
+                path,
+                error
+            );
+    }
+}
+
+export async function withFirestoreErrorContext<T>(operation: FirestoreOperation, path: string, task: () => Promise<T>): Promise<T> {
+    try {
+        return await task();
+    } catch (error) {
+        throw toFirestoreOperationError(error, operation, path);
+    }
+}
@@ -1,357 +1,2199 @@
-import {firestore} from "firebase/app";
+import firebase, {firestore} from "firebase/app";
+import {ConcurrencyLimiter, createConcurrencyLimiter, isPlainObject, mapWithConcurrency} from "./utils";
+import {
+    BatchCommitError,
+    BatchCommitResult,
+    DocumentNotFoundError,
+    FirestoreOperation,
+    toFirestoreOperationError,
+    ValidationError,
+    withFirestoreErrorContext
+} from "./firestore-errors";
+import {getProxyTarget} from "./proxy";
+
+export {BatchChunkResult, BatchChunkStatus, BatchCommitError, BatchCommitResult} from "./firestore-errors";
 
 export type DatabaseDocument = { [key: string]: any } & object;
 export type DatabaseDocumentWithId = { id: string } & DatabaseDocument;
+export type DatabaseDocumentWithParent = { parentPath: string } & DatabaseDocumentWithId;
+
+export const parentPathKey = "parentPath";
+
+export interface FirestoreObjectConverter {
+    fromFirestore(data: DatabaseDocument, snapshot: firestore.DocumentSnapshot): DatabaseDocument;
+
+    toFirestore(data: DatabaseDocument): DatabaseDocument;
+}
+
+export type PopulateOptions = {
+    as: string;
+    subcollections?: FirestoreObjectOptions[];
+    converter?: FirestoreObjectConverter;
+    populate?: Record<string, string | PopulateOptions>;
+};
+
+export type DocumentMigration = (data: DatabaseDocument, snapshot: firestore.DocumentSnapshot) => DatabaseDocument;
+
+export type SchemaOptions = {
+    versionField?: string;
+    migrations: DocumentMigration[];
+    writeBack?: boolean;
+};
+
+export const defaultSchemaVersionField = "schemaVersion";
+
+export type WriteHookContext = {
+    type: "add" | "set" | "update";
+    reference: firestore.DocumentReference;
+};
+
+export type FirestoreObjectHooks = {
+    beforeWrite?: (data: DatabaseDocument, context: WriteHookContext) => DatabaseDocument;
+    afterLoad?: (document: DatabaseDocumentWithId, snapshot: firestore.DocumentSnapshot) => DatabaseDocumentWithId;
+    beforeDelete?: (reference: firestore.DocumentReference, previous: DatabaseDocument) => void;
+    inherit?: boolean;
+};
+
+export type AuditOptions = {
+    getUserId: () => string | null | undefined;
+    createdAtField?: string;
+    createdByField?: string;
+    updatedAtField?: string;
+    updatedByField?: string;
+    inherit?: boolean;
+};
+
+export function createAuditHooks(auditOptions: AuditOptions): FirestoreObjectHooks {
+    let createdAtField = auditOptions.createdAtField || "createdAt";
+    let createdByField = auditOptions.createdByField || "createdBy";
+    let updatedAtField = auditOptions.updatedAtField || "updatedAt";
+    let updatedByField = auditOptions.updatedByField || "updatedBy";
+
+    return {
+        beforeWrite(data: DatabaseDocument, context: WriteHookContext): DatabaseDocument {
+            let userId = auditOptions.getUserId() ?? null;
+            let timestamp = firebase.firestore.FieldValue.serverTimestamp();
+            let audited: DatabaseDocument = {...data, [updatedAtField]: timestamp, [updatedByField]: userId};
+
+            if (context.type !== "update" && data[createdAtField] === undefined) {
+                audited[createdAtField] = timestamp;
+                audited[createdByField] = userId;
+            }
+
+            return audited;
+        },
+        inherit: auditOptions.inherit
+    };
+}
+
+export type SoftDeleteOptions = {
+    field?: string;
+    timestampField?: string;
+};
+
+export type NormalizedSoftDeleteOptions = {
+    field: string;
+    timestampField: string;
+};
 
 export type FirestoreObjectOptions = string | {
     collectionPath: string;
     name?: string;
     query?: (collection: firestore.CollectionReference) => firestore.Query;
     subcollections?: FirestoreObjectOptions[];
+    converter?: FirestoreObjectConverter;
+    lazy?: boolean;
+    populate?: Record<string, string | PopulateOptions>;
+    collectionGroup?: boolean;
+    schema?: SchemaOptions;
+    softDelete?: boolean | SoftDeleteOptions;
+    hooks?: FirestoreObjectHooks;
 }
 
+export type NormalizedPopulateOptions = {
+    field: string;
+    as: string;
+    options: NormalizedFirestoreObjectOptions;
+};
+
 export type NormalizedFirestoreObjectOptions = {
     collectionPath: string;
     name: string;
     query?: (collection: firestore.CollectionReference) => firestore.Query;
     subcollections: NormalizedFirestoreObjectOptions[];
+    converter?: FirestoreObjectConverter;
+    lazy: boolean;
+    populateFields: NormalizedPopulateOptions[];
+    collectionGroup: boolean;
+    schema?: SchemaOptions;
+    softDelete?: NormalizedSoftDeleteOptions;
+    hooks?: FirestoreObjectHooks;
+}
+
+export const populateRefPathPrefix = "$populate:";
+
+let database: firestore.Firestore;
+
+export function setFirestore(firestore: firestore.Firestore) {
+    database = firestore;
+}
+
+export function getFirestore(): firestore.Firestore | undefined {
+    return database;
+}
+
+function normalizeSoftDeleteOptions(softDelete: boolean | SoftDeleteOptions): NormalizedSoftDeleteOptions | undefined {
+    if (softDelete === false) return undefined;
+
+    let softDeleteOptions = softDelete === true ? {} : softDelete;
+
+    return {
+        field: softDeleteOptions.field || "deleted",
+        timestampField: softDeleteOptions.timestampField || "deletedAt"
+    };
+}
+
+export function normalizeFirestoreObjectOptions(options: FirestoreObjectOptions, inheritedConverter?: FirestoreObjectConverter, inheritedSoftDelete?: NormalizedSoftDeleteOptions, inheritedHooks?: FirestoreObjectHooks): NormalizedFirestoreObjectOptions {
+    if ((options as any).__normalized) return options as NormalizedFirestoreObjectOptions;
+
+    let hooks = typeof options === "string" || options.hooks === undefined ? inheritedHooks : options.hooks;
+
+    let converter = typeof options === "string" || options.converter === undefined ? inheritedConverter : options.converter;
+    let softDelete = typeof options === "string" || options.softDelete === undefined ? inheritedSoftDelete : normalizeSoftDeleteOptions(options.softDelete);
+
+    return {
+        collectionPath: typeof options === "string" ? options : options.collectionPath,
+        name: typeof options === "string" ? options : options.name === undefined ? options.collectionPath : options.name,
+        query: typeof options === "string" ? undefined : options.query,
+        subcollections: typeof options === "string" || options.subcollections === undefined ? [] :
+            options.subcollections.map(subcollection => normalizeFirestoreObjectOptions(subcollection, converter, softDelete, hooks && hooks.inherit ? hooks : undefined)),
+        converter: converter,
+        lazy: typeof options === "string" ? false : !!options.lazy,
+        populateFields: typeof options === "string" || options.populate === undefined ? [] : normalizePopulateOptions(options.populate),
+        collectionGroup: typeof options === "string" ? false : !!options.collectionGroup,
+        schema: typeof options === "string" ? undefined : options.schema,
+        softDelete: softDelete,
+        hooks: hooks,
+        __normalized: true
+    } as NormalizedFirestoreObjectOptions;
+}
+
+function normalizePopulateOptions(populate: Record<string, string | PopulateOptions>): NormalizedPopulateOptions[] {
+    return Object.keys(populate).map(field => {
+        let populateOptions = populate[field];
+
+        if (typeof populateOptions === "string") populateOptions = {as: populateOptions};
+
+        return {
+            field: field,
+            as: populateOptions.as,
+            options: normalizeFirestoreObjectOptions({
+                collectionPath: "",
+                subcollections: populateOptions.subcollections,
+                converter: populateOptions.converter,
+                populate: populateOptions.populate
+            })
+        };
+    });
+}
+
+function isDocumentReference(value: any): value is firestore.DocumentReference {
+    return value !== null && typeof value === "object" && typeof value.path === "string" &&
+        typeof value.collection === "function" && typeof value.onSnapshot === "function";
+}
+
+function getReferences(value: any): firestore.DocumentReference[] {
+    if (Array.isArray(value)) return value.filter(isDocumentReference);
+
+    return isDocumentReference(value) ? [value] : [];
+}
+
+function isSameReferenceValue(a: any, b: any): boolean {
+    let aPaths = getReferences(a).map(reference => reference.path);
+    let bPaths = getReferences(b).map(reference => reference.path);
+
+    return aPaths.length === bPaths.length && aPaths.every((path, i) => path === bPaths[i]);
+}
+
+function mapDocumentValues(value: any, map: (value: any) => any): any {
+    let mappedValue = map(value);
+
+    if (mappedValue !== value) return mappedValue;
+
+    if (Array.isArray(value)) {
+        return value.map(item => mapDocumentValues(item, map));
+    }
+
+    if (isPlainObject(value)) {
+        let mappedObject: DatabaseDocument = {};
+
+        for (let key in value) {
+            if (value.hasOwnProperty(key)) {
+                mappedObject[key] = mapDocumentValues(value[key], map);
+            }
+        }
+
+        return mappedObject;
+    }
+
+    return value;
+}
+
+function isTimestamp(value: any): value is firestore.Timestamp {
+    return value !== null && typeof value === "object" && typeof value.toDate === "function" && typeof value.toMillis === "function";
+}
+
+export const timestampConverter: FirestoreObjectConverter = {
+    fromFirestore(data: DatabaseDocument): DatabaseDocument {
+        return mapDocumentValues(data, value => isTimestamp(value) ? value.toDate() : value);
+    },
+
+    toFirestore(data: DatabaseDocument): DatabaseDocument {
+        return mapDocumentValues(data, value => value instanceof Date ? firebase.firestore.Timestamp.fromDate(getProxyTarget(value)) : value);
+    }
+};
+
+function getSchemaVersion(data: DatabaseDocument, schema: SchemaOptions): number {
+    let version = data[schema.versionField || defaultSchemaVersionField];
+
+    return typeof version === "number" ? version : 0;
+}
+
+function migrateDocumentData(data: DatabaseDocument, snapshot: firestore.DocumentSnapshot, schema: SchemaOptions): DatabaseDocument {
+    for (let version = getSchemaVersion(data, schema); version < schema.migrations.length; version++) {
+        data = {
+            ...schema.migrations[version](data, snapshot),
+            [schema.versionField || defaultSchemaVersionField]: version + 1
+        };
+    }
+
+    return data;
+}
+
+function writeBackMigratedDocument(snapshot: firestore.DocumentSnapshot, schema: SchemaOptions) {
+    snapshot.ref.firestore.runTransaction(async transaction => {
+        let currentSnapshot = await transaction.get(snapshot.ref);
+        let data = currentSnapshot.data();
+
+        if (data !== undefined && getSchemaVersion(data, schema) < schema.migrations.length) {
+            transaction.set(snapshot.ref, migrateDocumentData(data, currentSnapshot, schema));
+        }
+    }).catch(() => {
+    });
+}
+
+function getSnapshotData(snapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions, writeBack: boolean = true): DatabaseDocument | undefined {
+    let data = snapshot.data();
+
+    if (data !== undefined && options.schema && getSchemaVersion(data, options.schema) < options.schema.migrations.length) {
+        data = migrateDocumentData(data, snapshot, options.schema);
+
+        if (writeBack && options.schema.writeBack) writeBackMigratedDocument(snapshot, options.schema);
+    }
+
+    return data !== undefined && options.converter ? options.converter.fromFirestore(data, snapshot) : data;
+}
+
+export type PathParams = Record<string, string | null | undefined>;
+
+const pathParamPattern = /^{(\w+)}$/;
+
+export function isPathTemplate(path: string): boolean {
+    return path.split("/").some(segment => pathParamPattern.test(segment));
+}
+
+export function resolvePathTemplate(template: string, params: PathParams): string | null {
+    let segments: string[] = [];
+
+    for (let segment of template.split("/")) {
+        let match = pathParamPattern.exec(segment);
+        let value = match ? params[match[1]] : segment;
+
+        if (value === null || value === undefined || value === "" || value.includes("/")) return null;
+
+        segments.push(value);
+    }
+
+    return segments.join("/");
+}
+
+export function matchPathTemplate(template: string, path: string): Record<string, string> | null {
+    let templateSegments = template.split("/");
+    let pathSegments = path.split("/");
+    let params: Record<string, string> = {};
+
+    if (templateSegments.length !== pathSegments.length) return null;
+
+    for (let i = 0; i < templateSegments.length; i++) {
+        let match = pathParamPattern.exec(templateSegments[i]);
+
+        if (match) {
+            params[match[1]] = pathSegments[i];
+        } else if (templateSegments[i] !== pathSegments[i]) {
+            return null;
+        }
+    }
+
+    return params;
+}
+
+export function limitFirestoreObjectOptions(options: FirestoreObjectOptions, limit: number): NormalizedFirestoreObjectOptions {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let query = normalizedOptions.query;
+
+    return {
+        ...normalizedOptions,
+        query: collection => (query ? query(collection) : collection).limit(limit)
+    };
+}
+
+function getCollectionQuery(options: NormalizedFirestoreObjectOptions, db: firestore.Firestore = database): firestore.Query {
+    let query: firestore.Query = options.collectionGroup ? db.collectionGroup(options.collectionPath) : db.collection(options.collectionPath);
+
+    if (options.query) query = options.query(query as firestore.CollectionReference);
+
+    return query;
+}
+
+function isDeletedSnapshot(documentSnapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions): boolean {
+    return !!options.softDelete && documentSnapshot.get(options.softDelete.field) === true;
+}
+
+function getMissingDocumentSnapshot(documentSnapshot: firestore.DocumentSnapshot): firestore.DocumentSnapshot {
+    return Object.create(documentSnapshot, {
+        exists: {value: false},
+        data: {value: () => undefined},
+        get: {value: () => undefined}
+    });
+}
+
+function getVisibleDocuments(snapshot: firestore.QuerySnapshot, options: NormalizedFirestoreObjectOptions, includeDeleted: boolean = false): firestore.QueryDocumentSnapshot[] {
+    return includeDeleted || !options.softDelete ? snapshot.docs : snapshot.docs.filter(documentSnapshot => !isDeletedSnapshot(documentSnapshot, options));
+}
+
+const unfilteredSnapshots: WeakMap<firestore.QuerySnapshot, firestore.QuerySnapshot> = new WeakMap();
+
+export function getQuerySnapshotSize(snapshot: firestore.QuerySnapshot): number {
+    return (unfilteredSnapshots.get(snapshot) || snapshot).size;
+}
+
+function createDeletedDocumentsFilter(options: NormalizedFirestoreObjectOptions): (snapshot: firestore.QuerySnapshot) => firestore.QuerySnapshot {
+    let visiblePaths: string[] = [];
+
+    return snapshot => {
+        let order: Map<string, number> = new Map(snapshot.docs.map((documentSnapshot, i) => [documentSnapshot.ref.path, i] as [string, number]));
+        let docs = getVisibleDocuments(snapshot, options);
+        let changes: firestore.DocumentChange[] = [];
+
+        for (let change of snapshot.docChanges()) {
+            let path = change.doc.ref.path;
+            let oldIndex = visiblePaths.indexOf(path);
+            let newIndex = -1;
+
+            if (oldIndex !== -1) visiblePaths.splice(oldIndex, 1);
+
+            if (change.type !== "removed" && !isDeletedSnapshot(change.doc, options)) {
+                newIndex = visiblePaths.findIndex(otherPath => (order.get(otherPath) ?? -1) > order.get(path)!);
+                if (newIndex === -1) newIndex = visiblePaths.length;
+
+                visiblePaths.splice(newIndex, 0, path);
+            }
+
+            if (oldIndex === -1 && newIndex === -1) continue;
+
+            changes.push({
+                type: oldIndex === -1 ? "added" : newIndex === -1 ? "removed" : "modified",
+                doc: change.doc,
+                oldIndex,
+                newIndex
+            });
+        }
+
+        let filtered: firestore.QuerySnapshot = Object.create(snapshot, {
+            docs: {value: docs},
+            size: {value: docs.length},
+            empty: {value: docs.length === 0},
+            forEach: {value: (callback: (result: firestore.QueryDocumentSnapshot) => void, thisArg?: any) => docs.forEach(callback, thisArg)},
+            docChanges: {value: () => changes}
+        });
+
+        unfilteredSnapshots.set(filtered, snapshot);
+
+        return filtered;
+    };
+}
+
+function getSnapshot(target: firestore.DocumentReference, path: string): Promise<firestore.DocumentSnapshot>;
+function getSnapshot(target: firestore.Query, path: string): Promise<firestore.QuerySnapshot>;
+function getSnapshot(target: firestore.DocumentReference | firestore.Query, path: string): Promise<firestore.DocumentSnapshot | firestore.QuerySnapshot> {
+    return withFirestoreErrorContext<firestore.DocumentSnapshot | firestore.QuerySnapshot>("get", path, () => target.get());
+}
+
+function getSnapshotRefId(documentSnapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions): string {
+    return options.collectionGroup ? documentSnapshot.ref.path : documentSnapshot.id;
+}
+
+function getDocumentRefId(document: DatabaseDocumentWithId, options: NormalizedFirestoreObjectOptions): string {
+    return options.collectionGroup ? `${document[parentPathKey]}/${document.id}` : document.id;
+}
+
+export type DocumentOrRefMatch<T extends DatabaseDocumentWithId> = DocumentRefMatch<T> | RefDocumentMatch<T>;
+
+export interface DocumentRefMatch<T extends DatabaseDocumentWithId> {
+    id: string;
+    document: T;
+    ref: firestore.DocumentReference<T> | null;
+}
+
+export function matchDocumentsWithRefs<T extends DatabaseDocumentWithId>(documents: T[], refs: firestore.DocumentReference<T>[]): DocumentRefMatch<T>[] {
+    let refsById = new Map<string, firestore.DocumentReference<T>>();
+
+    for (let ref of refs) {
+        if (!refsById.has(ref.id)) refsById.set(ref.id, ref);
+    }
+
+    return documents.map(document => ({
+        id: document.id,
+        document: document,
+        ref: refsById.get(document.id) || null
+    }));
+}
+
+export interface RefDocumentMatch<T extends DatabaseDocumentWithId> {
+    id: string;
+    ref: firestore.DocumentReference<T>;
+    document: T | null;
+}
+
+export function matchRefsWithDocuments<T extends DatabaseDocumentWithId>(refs: firestore.DocumentReference<T>[], documents: T[]): RefDocumentMatch<T>[] {
+    let documentsById = new Map<string, T>();
+
+    for (let document of documents) {
+        if (!documentsById.has(document.id)) documentsById.set(document.id, document);
+    }
+
+    return refs.map(ref => ({
+        id: ref.id,
+        ref: ref,
+        document: documentsById.get(ref.id) || null
+    }));
+}
+
+export type LoadOptions = {
+    concurrency?: number;
+    depth?: number;
+};
+
+type LoadContext = {
+    limit: ConcurrencyLimiter;
+    depth: number;
+    includeLazy: boolean;
+    includeDeleted: boolean;
+    planning: boolean;
+    snapshots: Map<string, Promise<firestore.DocumentSnapshot>>;
+    references: Map<NormalizedFirestoreObjectOptions, Map<string, Promise<DatabaseDocumentWithId | null>>>;
+    ancestors: string[];
+};
+
+export const defaultLoadConcurrency = 10;
+
+function createLoadContext(loadOptions: LoadOptions, includeLazy: boolean = false, includeDeleted: boolean = false, planning: boolean = false): LoadContext {
+    return {
+        limit: createConcurrencyLimiter(loadOptions.concurrency || defaultLoadConcurrency),
+        depth: loadOptions.depth === undefined ? Infinity : loadOptions.depth,
+        includeLazy: includeLazy,
+        includeDeleted: includeDeleted,
+        planning: planning,
+        snapshots: new Map(),
+        references: new Map(),
+        ancestors: []
+    };
+}
+
+function getSubcollectionOptions(documentReference: firestore.DocumentReference, subcollectionOptions: NormalizedFirestoreObjectOptions): NormalizedFirestoreObjectOptions {
+    return {
+        ...subcollectionOptions,
+        collectionPath: documentReference.collection(subcollectionOptions.collectionPath).path
+    };
+}
+
+async function loadSubcollectionsInto(document: DatabaseDocument, documentReference: firestore.DocumentReference, subcollections: NormalizedFirestoreObjectOptions[], context: LoadContext, db: firestore.Firestore = database) {
+    let subcontext = {...context, depth: context.depth - 1};
+
+    await Promise.all(subcollections.map(async subcollectionOptions => {
+        document[subcollectionOptions.name] = await loadCollection(getSubcollectionOptions(documentReference, subcollectionOptions), subcontext, db);
+    }));
+}
+
+function loadReference(reference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<DatabaseDocumentWithId | null> {
+    let references = context.references.get(options);
+
+    if (!references) {
+        references = new Map();
+        context.references.set(options, references);
+    }
+
+    let snapshot = context.snapshots.get(reference.path);
+
+    if (!snapshot) {
+        snapshot = context.limit(() => getSnapshot(reference, reference.path));
+        context.snapshots.set(reference.path, snapshot);
+    }
+
+    let document = references.get(reference.path);
+
+    if (!document) {
+        document = snapshot.then(documentSnapshot => documentSnapshot.exists ?
+            loadDocument(documentSnapshot, {...options, collectionPath: reference.parent.path}, context, db) : null
+        );
+
+        references.set(reference.path, document);
+    }
+
+    return document;
+}
+
+async function populateDocument(document: DatabaseDocumentWithId, documentPath: string, options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database) {
+    let populateContext = {...context, ancestors: [...context.ancestors, documentPath]};
+
+    await Promise.all(options.populateFields.map(async populate => {
+        let value = document[populate.field];
+        let references = getReferences(value);
+
+        if (references.some(reference => populateContext.ancestors.includes(reference.path))) return;
+
+        let populated = await Promise.all(references.map(reference => loadReference(reference, populate.options, populateContext, db)));
+
+        document[populate.as] = Array.isArray(value) ? populated : populated.length > 0 ? populated[0] : null;
+    }));
+}
+
+async function loadDocument<T extends DatabaseDocumentWithId>(documentSnapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<T> {
+    if (!documentSnapshot.exists) throw new DocumentNotFoundError("get", documentSnapshot.ref.path);
+
+    let document: T = {
+        id: documentSnapshot.id,
+        ...getSnapshotData(documentSnapshot, options, !context.planning)
+    } as any;
+
+    let documentReference = documentSnapshot.ref;
+
+    if (options.collectionGroup) (document as DatabaseDocument)[parentPathKey] = documentReference.parent.path;
+
+    if (context.depth > 0) {
+        let subcollections = options.subcollections.filter(subcollection => context.includeLazy || !subcollection.lazy);
+
+        await loadSubcollectionsInto(document, documentReference, subcollections, context, db);
+    }
+
+    if (context.planning) return document;
+
+    if (options.populateFields.length > 0) {
+        await populateDocument(document, documentReference.path, options, context, db);
+    }
+
+    if (options.hooks && options.hooks.afterLoad) {
+        document = options.hooks.afterLoad(document, documentSnapshot) as T;
+    }
+
+    return document;
+}
+
+async function loadCollection<T extends DatabaseDocumentWithId>(options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<T[]> {
+    let query = getCollectionQuery(options, db);
+    let collectionSnapshot = await context.limit(() => getSnapshot(query, options.collectionPath));
+
+    return Promise.all(getVisibleDocuments(collectionSnapshot, options, context.includeDeleted).map(documentSnapshot => loadDocument<T>(documentSnapshot, options, context, db)));
+}
+
+export async function getDocument<T extends DatabaseDocumentWithId>(id: string, options: FirestoreObjectOptions, db: firestore.Firestore = database, loadOptions: LoadOptions = {}): Promise<T> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let context = createLoadContext(loadOptions);
+    let documentReference = db.collection(normalizedOptions.collectionPath).doc(id);
+    let documentSnapshot = await context.limit(() => getSnapshot(documentReference, documentReference.path));
+
+    return loadDocument(documentSnapshot, normalizedOptions, context, db);
+}
+
+export async function getCollection<T extends DatabaseDocumentWithId>(options: FirestoreObjectOptions, db: firestore.Firestore = database, loadOptions: LoadOptions = {}): Promise<T[]> {
+    return loadCollection(normalizeFirestoreObjectOptions(options), createLoadContext(loadOptions), db);
+}
+
+export async function loadSubcollections<T extends DatabaseDocumentWithId>(document: T, options: FirestoreObjectOptions, subcollectionNames?: string[], db: firestore.Firestore = database, loadOptions: LoadOptions = {}): Promise<T> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let subcollections = normalizedOptions.subcollections.filter(subcollection =>
+        subcollectionNames ? subcollectionNames.includes(subcollection.name) : subcollection.lazy
+    );
+
+    await loadSubcollectionsInto(document, db.collection(normalizedOptions.collectionPath).doc(document.id), subcollections, {
+        ...createLoadContext(loadOptions),
+        depth: loadOptions.depth === undefined ? Infinity : loadOptions.depth + 1
+    }, db);
+
+    return document;
+}
+
+export type CollectionCursor = {
+    readonly lastSnapshot: firestore.DocumentSnapshot;
+};
+
+export interface CollectionPage<T extends DatabaseDocumentWithId> {
+    items: T[];
+    cursor: CollectionCursor | null;
 }
 
-let database: firestore.Firestore;
+export type CollectionPageOptions = LoadOptions & {
+    pageSize: number;
+    cursor?: CollectionCursor | null;
+};
+
+export async function getCollectionPage<T extends DatabaseDocumentWithId>(options: FirestoreObjectOptions, db: firestore.Firestore = database, pageOptions: CollectionPageOptions): Promise<CollectionPage<T>> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let query = getCollectionQuery(normalizedOptions, db);
+
+    if (pageOptions.cursor) query = query.startAfter(pageOptions.cursor.lastSnapshot);
+
+    let context = createLoadContext(pageOptions);
+    let collectionSnapshot = await context.limit(() => getSnapshot(query.limit(pageOptions.pageSize), normalizedOptions.collectionPath));
+    let items = await Promise.all(getVisibleDocuments(collectionSnapshot, normalizedOptions).map(documentSnapshot => loadDocument<T>(documentSnapshot, normalizedOptions, context, db)));
+
+    return {
+        items: items,
+        cursor: collectionSnapshot.size < pageOptions.pageSize ? null : {
+            lastSnapshot: collectionSnapshot.docs[collectionSnapshot.size - 1]
+        }
+    };
+}
+
+export type StreamCollectionOptions = LoadOptions & {
+    pageSize?: number;
+};
+
+export const defaultStreamPageSize = 100;
+
+export async function* streamCollection<T extends DatabaseDocumentWithId>(options: FirestoreObjectOptions, db: firestore.Firestore = database, streamOptions: StreamCollectionOptions = {}): AsyncIterable<T> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let pageSize = streamOptions.pageSize || defaultStreamPageSize;
+    let lastSnapshot: firestore.QueryDocumentSnapshot | null = null;
+
+    while (true) {
+        let query = getCollectionQuery(normalizedOptions, db);
+        if (lastSnapshot) query = query.startAfter(lastSnapshot);
+
+        let context = createLoadContext(streamOptions);
+        let querySnapshot: firestore.QuerySnapshot = await context.limit(() => getSnapshot(query.limit(pageSize), normalizedOptions.collectionPath));
+
+        for (let documentSnapshot of getVisibleDocuments(querySnapshot, normalizedOptions)) {
+            yield await loadDocument<T>(documentSnapshot, normalizedOptions, context, db);
+        }
+
+        if (querySnapshot.size < pageSize) return;
+
+        lastSnapshot = querySnapshot.docs[querySnapshot.size - 1];
+    }
+}
+
+type PoolSubscriber = {
+    onNext: (snapshot: any) => void;
+    onError?: (error: Error) => void;
+    includeMetadataChanges: boolean;
+    lastSnapshot?: firestore.QuerySnapshot | firestore.DocumentSnapshot;
+    active: boolean;
+};
+
+type PooledListener = {
+    target: firestore.Query | firestore.DocumentReference;
+    isDocument: boolean;
+    subscribers: PoolSubscriber[];
+    lastSnapshot?: firestore.QuerySnapshot | firestore.DocumentSnapshot;
+    unsubscribe: () => void;
+    lingerTimeout: ReturnType<typeof setTimeout> | null;
+};
+
+let listenerPool: PooledListener[] = [];
+
+export function getPooledListenerCount(): number {
+    return listenerPool.length;
+}
+
+function isSameListenerTarget(listener: PooledListener, target: firestore.Query | firestore.DocumentReference, isDocument: boolean): boolean {
+    if (listener.isDocument !== isDocument) return false;
+
+    return isDocument ? (listener.target as firestore.DocumentReference).isEqual(target as firestore.DocumentReference) :
+        (listener.target as firestore.Query).isEqual(target as firestore.Query);
+}
+
+function getInitialSnapshot(snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot, isDocument: boolean): firestore.QuerySnapshot | firestore.DocumentSnapshot {
+    if (isDocument) return snapshot;
+
+    let querySnapshot = snapshot as firestore.QuerySnapshot;
+    let changes = querySnapshot.docs.map((doc, index) => ({type: "added", doc, oldIndex: -1, newIndex: index}));
+
+    return Object.assign(Object.create(querySnapshot), {docChanges: () => changes});
+}
+
+function isMetadataOnlySnapshot(previous: firestore.QuerySnapshot | firestore.DocumentSnapshot, snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot, isDocument: boolean): boolean {
+    if (!isDocument) return (snapshot as firestore.QuerySnapshot).docChanges().length === 0;
+
+    let previousDocument = previous as firestore.DocumentSnapshot;
+    let document = snapshot as firestore.DocumentSnapshot;
+
+    return previousDocument.exists === document.exists && isEqualValue(previousDocument.data(), document.data());
+}
+
+function notifyPoolSubscriber(listener: PooledListener, subscriber: PoolSubscriber, snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot) {
+    if (!subscriber.active) return;
+
+    let previous = subscriber.lastSnapshot;
+
+    if (previous && !subscriber.includeMetadataChanges && isMetadataOnlySnapshot(previous, snapshot, listener.isDocument)) return;
+
+    subscriber.lastSnapshot = snapshot;
+    subscriber.onNext(previous ? snapshot : getInitialSnapshot(snapshot, listener.isDocument));
+}
+
+function closePooledListener(listener: PooledListener) {
+    let index = listenerPool.indexOf(listener);
+    if (index !== -1) listenerPool.splice(index, 1);
+
+    if (listener.lingerTimeout !== null) clearTimeout(listener.lingerTimeout);
+    listener.unsubscribe();
+}
+
+function listen(target: firestore.DocumentReference, path: string, isDocument: true, includeMetadataChanges: boolean, linger: number, onNext: (snapshot: firestore.DocumentSnapshot) => void, onError?: (error: Error) => void): () => void;
+function listen(target: firestore.Query, path: string, isDocument: false, includeMetadataChanges: boolean, linger: number, onNext: (snapshot: firestore.QuerySnapshot) => void, onError?: (error: Error) => void): () => void;
+function listen(target: firestore.Query | firestore.DocumentReference, path: string, isDocument: boolean, includeMetadataChanges: boolean, linger: number, onNext: (snapshot: any) => void, onError?: (error: Error) => void): () => void {
+    let subscriber: PoolSubscriber = {onNext, onError, includeMetadataChanges, active: true};
+    let listener = listenerPool.find(listener => isSameListenerTarget(listener, target, isDocument));
+
+    if (listener) {
+        let existingListener = listener;
+
+        if (existingListener.lingerTimeout !== null) {
+            clearTimeout(existingListener.lingerTimeout);
+            existingListener.lingerTimeout = null;
+        }
+
+        if (existingListener.lastSnapshot) {
+            Promise.resolve().then(() => notifyPoolSubscriber(existingListener, subscriber, existingListener.lastSnapshot!));
+        }
+    } else {
+        let newListener: PooledListener = {
+            target,
+            isDocument,
+            subscribers: [],
+            unsubscribe: () => undefined,
+            lingerTimeout: null
+        };
+
+        listener = newListener;
+        listenerPool.push(newListener);
+
+        let snapshotOptions = {includeMetadataChanges: true};
+        let handleSnapshot = (snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot) => {
+            newListener.lastSnapshot = snapshot;
+
+            for (let subscriber of newListener.subscribers.slice()) {
+                notifyPoolSubscriber(newListener, subscriber, snapshot);
+            }
+        };
+        let handleError = (error: Error) => {
+            let operationError = toFirestoreOperationError(error, "subscribe", path);
+
+            closePooledListener(newListener);
+
+            for (let subscriber of newListener.subscribers.slice()) {
+                if (subscriber.active) subscriber.onError?.(operationError);
+            }
+        };
+
+        newListener.unsubscribe = isDocument ?
+            (target as firestore.DocumentReference).onSnapshot(snapshotOptions, handleSnapshot, handleError) :
+            (target as firestore.Query).onSnapshot(snapshotOptions, handleSnapshot, handleError);
+    }
+
+    let pooledListener = listener;
+    pooledListener.subscribers.push(subscriber);
+
+    return () => {
+        if (!subscriber.active) return;
+        subscriber.active = false;
+
+        let index = pooledListener.subscribers.indexOf(subscriber);
+        if (index !== -1) pooledListener.subscribers.splice(index, 1);
+
+        if (pooledListener.subscribers.length > 0 || !listenerPool.includes(pooledListener)) return;
+
+        if (linger > 0) {
+            pooledListener.lingerTimeout = setTimeout(() => closePooledListener(pooledListener), linger);
+        } else {
+            closePooledListener(pooledListener);
+        }
+    };
+}
+
+type PopulateListener = {
+    unsubscribe: () => void;
+    targets: Map<string, string[]>;
+    lastSnapshot?: firestore.DocumentSnapshot;
+};
+
+class PopulateSubscriptions {
+
+    protected listeners: Map<string, PopulateListener> = new Map();
+    protected targetReferences: Map<string, string[]> = new Map();
+
+    constructor(protected readonly options: NormalizedFirestoreObjectOptions,
+                protected readonly onUpdate: (refPath: string[], snapshot: firestore.DocumentSnapshot) => void,
+                protected readonly onError?: (error: Error) => void,
+                protected readonly linger: number = 0) {
+    }
+
+    update(documentRefPath: string[], documentSnapshot: firestore.DocumentSnapshot | null) {
+        for (let populate of this.options.populateFields) {
+            let refPath = [...documentRefPath, populateRefPathPrefix + populate.field];
+            let targetKey = JSON.stringify(refPath);
+            let references = documentSnapshot && documentSnapshot.exists ? getReferences(documentSnapshot.get(populate.field)) : [];
+            let paths = references.map(reference => reference.path);
+            let previousPaths = this.targetReferences.get(targetKey) || [];
+
+            for (let path of previousPaths) {
+                if (!paths.includes(path)) this.release(path, targetKey);
+            }
+
+            for (let reference of references) {
+                if (!previousPaths.includes(reference.path)) this.acquire(reference, targetKey, refPath);
+            }
+
+            if (paths.length > 0) {
+                this.targetReferences.set(targetKey, paths);
+            } else {
+                this.targetReferences.delete(targetKey);
+            }
+        }
+    }
+
+    unsubscribe() {
+        for (let listener of this.listeners.values()) {
+            listener.unsubscribe();
+        }
+
+        this.listeners.clear();
+        this.targetReferences.clear();
+    }
+
+    protected acquire(reference: firestore.DocumentReference, targetKey: string, refPath: string[]) {
+        let listener = this.listeners.get(reference.path);
+
+        if (listener) {
+            listener.targets.set(targetKey, refPath);
+            if (listener.lastSnapshot) this.onUpdate(refPath, listener.lastSnapshot);
+            return;
+        }
+
+        let newListener: PopulateListener = {
+            unsubscribe: () => undefined,
+            targets: new Map([[targetKey, refPath]])
+        };
+
+        this.listeners.set(reference.path, newListener);
+
+        newListener.unsubscribe = listen(reference, reference.path, true, false, this.linger, snapshot => {
+            newListener.lastSnapshot = snapshot;
+
+            for (let targetRefPath of newListener.targets.values()) {
+                this.onUpdate(targetRefPath, snapshot);
+            }
+        }, this.onError);
+    }
+
+    protected release(path: string, targetKey: string) {
+        let listener = this.listeners.get(path);
+        if (!listener) return;
+
+        listener.targets.delete(targetKey);
+
+        if (listener.targets.size === 0) {
+            listener.unsubscribe();
+            this.listeners.delete(path);
+        }
+    }
+
+}
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    initialDelay: number;
+    maxDelay: number;
+    backoffFactor: number;
+    retryableCodes: string[];
+}
+
+export interface RetryState {
+    attempt: number;
+    nextRetryAt: number | null;
+    lastError: any;
+}
+
+export const defaultRetryPolicy: RetryPolicy = {
+    maxAttempts: 5,
+    initialDelay: 1000,
+    maxDelay: 30000,
+    backoffFactor: 2,
+    retryableCodes: ["unavailable", "deadline-exceeded", "resource-exhausted", "aborted", "internal", "unknown"]
+};
+
+export type SubscribeOptions = {
+    includeMetadataChanges?: boolean;
+    retryPolicy?: Partial<RetryPolicy>;
+    onRetryStateChange?: (state: RetryState | null) => void;
+    linger?: number;
+};
+
+export function isRetryableError(error: any, policy: RetryPolicy = defaultRetryPolicy): boolean {
+    return !!error && typeof error.code === "string" && policy.retryableCodes.includes(error.code);
+}
+
+export function getRetryDelay(attempt: number, policy: RetryPolicy = defaultRetryPolicy): number {
+    return Math.min(policy.initialDelay * Math.pow(policy.backoffFactor, attempt), policy.maxDelay);
+}
+
+function subscribeWithRetry(subscribe: (onSnapshot: () => void, onError: (error: Error) => void) => () => void, subscribeOptions: SubscribeOptions, onError?: (error: Error) => void): () => void {
+    let policy: RetryPolicy = {...defaultRetryPolicy, ...subscribeOptions.retryPolicy};
+    let attempt = 0;
+    let unsubscribe: (() => void) | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const start = () => {
+        retryTimeout = null;
+
+        unsubscribe = subscribe(() => {
+            if (attempt > 0) {
+                attempt = 0;
+                subscribeOptions.onRetryStateChange?.(null);
+            }
+        }, error => {
+            if (stopped) return;
+
+            if (unsubscribe) unsubscribe();
+            unsubscribe = null;
+
+            if (attempt < policy.maxAttempts && isRetryableError(error, policy)) {
+                let delay = getRetryDelay(attempt, policy);
+                attempt++;
+
+                subscribeOptions.onRetryStateChange?.({attempt, nextRetryAt: Date.now() + delay, lastError: error});
+                retryTimeout = setTimeout(start, delay);
+            } else {
+                onError?.(error);
+            }
+        });
+    };
+
+    start();
+
+    return () => {
+        stopped = true;
+
+        if (retryTimeout !== null) clearTimeout(retryTimeout);
+        if (unsubscribe) unsubscribe();
+    };
+}
+
+export interface SyncMetadata {
+    hasPendingWrites: boolean;
+    fromCache: boolean;
+    lastServerSync: number | null;
+}
+
+export function getSyncMetadata(metadata: firestore.SnapshotMetadata, previous?: SyncMetadata | null): SyncMetadata {
+    return {
+        hasPendingWrites: metadata.hasPendingWrites,
+        fromCache: metadata.fromCache,
+        lastServerSync: metadata.fromCache ? previous?.lastServerSync ?? null : Date.now()
+    };
+}
+
+export function getDocumentsSyncMetadata(snapshot: firestore.QuerySnapshot, options: FirestoreObjectOptions, previous: Record<string, SyncMetadata> = {}): Record<string, SyncMetadata> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let documentsMetadata: Record<string, SyncMetadata> = {};
+
+    for (let documentSnapshot of snapshot.docs) {
+        let refId = getSnapshotRefId(documentSnapshot, normalizedOptions);
+        documentsMetadata[refId] = getSyncMetadata(documentSnapshot.metadata, previous[refId]);
+    }
+
+    return documentsMetadata;
+}
+
+export function subscribeToDocument(id: string, options: FirestoreObjectOptions, onUpdate: (refPath: string[], snapshot: firestore.DocumentSnapshot | firestore.QuerySnapshot, isDocument: boolean) => void, onError?: (error: Error) => void, db: firestore.Firestore = database, subscribeOptions: SubscribeOptions = {}): () => void {
+    if (subscribeOptions.retryPolicy) {
+        let {retryPolicy, onRetryStateChange, ...innerOptions} = subscribeOptions;
+
+        return subscribeWithRetry((onSnapshot, onRetryError) => subscribeToDocument(id, options, (refPath, snapshot, isDocument) => {
+            onSnapshot();
+            onUpdate(refPath, snapshot, isDocument);
+        }, onRetryError, db, innerOptions), subscribeOptions, onError);
+    }
+
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let subscriptions: Map<string, () => void> = new Map();
+    let documentPath = db.collection(normalizedOptions.collectionPath).doc(id).path;
+    let populateSubscriptions = new PopulateSubscriptions(normalizedOptions, (refPath, snapshot) => onUpdate(refPath, snapshot, true), onError, subscribeOptions.linger);
+
+    subscriptions.set(documentPath, listen(db.doc(documentPath), documentPath, true, !!subscribeOptions.includeMetadataChanges, subscribeOptions.linger || 0, documentSnapshot => {
+        if (isDeletedSnapshot(documentSnapshot, normalizedOptions)) documentSnapshot = getMissingDocumentSnapshot(documentSnapshot);
+
+        onUpdate([], documentSnapshot, true);
+        populateSubscriptions.update([], documentSnapshot);
+    }, onError));
+
+    for (let subcollectionOptions of normalizedOptions.subcollections) {
+        let options = {
+            ...subcollectionOptions,
+            collectionPath: db.doc(documentPath).collection(subcollectionOptions.collectionPath).path
+        };
+
+        subscriptions.set(options.collectionPath, subscribeToCollection(options, (subRefPath, subSnapshot) => {
+            onUpdate([subcollectionOptions.collectionPath, ...subRefPath], subSnapshot, false);
+        }, onError, db, subscribeOptions));
+    }
+
+    return () => {
+        for (let unsubscribe of subscriptions.values()) {
+            unsubscribe();
+        }
+
+        populateSubscriptions.unsubscribe();
+    };
+}
+
+export function subscribeToCollection(options: FirestoreObjectOptions, onUpdate: (refPath: string[], snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot) => void, onError?: (error: Error) => void, db: firestore.Firestore = database, subscribeOptions: SubscribeOptions = {}): () => void {
+    if (subscribeOptions.retryPolicy) {
+        let {retryPolicy, onRetryStateChange, ...innerOptions} = subscribeOptions;
+
+        return subscribeWithRetry((onSnapshot, onRetryError) => subscribeToCollection(options, (refPath, snapshot) => {
+            onSnapshot();
+            onUpdate(refPath, snapshot);
+        }, onRetryError, db, innerOptions), subscribeOptions, onError);
+    }
+
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let subscriptions: Map<string, () => void> = new Map();
+    let populateSubscriptions = new PopulateSubscriptions(normalizedOptions, onUpdate, onError, subscribeOptions.linger);
+
+    let query = getCollectionQuery(normalizedOptions, db);
+    let filterDeletedDocuments = normalizedOptions.softDelete ? createDeletedDocumentsFilter(normalizedOptions) : null;
+
+    subscriptions.set(normalizedOptions.collectionPath, listen(query, normalizedOptions.collectionPath, false, !!subscribeOptions.includeMetadataChanges, subscribeOptions.linger || 0, querySnapshot => {
+        let snapshot = filterDeletedDocuments ? filterDeletedDocuments(querySnapshot) : querySnapshot;
+
+        onUpdate([], snapshot);
+
+        for (let documentChange of snapshot.docChanges()) {
+            populateSubscriptions.update([getSnapshotRefId(documentChange.doc, normalizedOptions)], documentChange.type === "removed" ? null : documentChange.doc);
+        }
+
+        for (let subcollectionOptions of normalizedOptions.subcollections) {
+            for (let documentChange of snapshot.docChanges()) {
+                let documentRefId = getSnapshotRefId(documentChange.doc, normalizedOptions);
+                let options = getSubcollectionOptions(documentChange.doc.ref, subcollectionOptions);
+
+                if (documentChange.type === "added") {
+                    let unsubscribe = subscriptions.get(options.collectionPath);
+                    if (unsubscribe) unsubscribe();
+
+                    subscriptions.set(options.collectionPath, subscribeToCollection(options, (subRefPath, subSnapshot) => {
+                        onUpdate([documentRefId, subcollectionOptions.collectionPath, ...subRefPath], subSnapshot);
+                    }, onError, db, subscribeOptions));
+                } else if (documentChange.type === "removed") {
+                    let unsubscribe = subscriptions.get(options.collectionPath);
+                    if (unsubscribe) unsubscribe();
+                    subscriptions.delete(options.collectionPath);
+                }
+            }
+        }
+    }, onError));
+
+    return () => {
+        for (let unsubscribe of subscriptions.values()) {
+            unsubscribe();
+        }
+
+        populateSubscriptions.unsubscribe();
+    };
+}
+
+type DocumentInfo<T extends DatabaseDocument> = { document: T; subcollectionsInfo: { key: keyof T; options: NormalizedFirestoreObjectOptions }[] };
+
+function getPlainDocumentAndInfo<T extends DatabaseDocument, D extends DatabaseDocument | DatabaseDocumentWithId>(data: D, options: NormalizedFirestoreObjectOptions): DocumentInfo<T> {
+    let document: T = {} as T;
+    let subcollectionsInfo: { key: keyof T, options: NormalizedFirestoreObjectOptions }[] = [];
+
+    for (let key in data) {
+        if (data.hasOwnProperty(key) && key !== "id" && !(options.collectionGroup && key === parentPathKey) &&
+            !options.populateFields.some(populate => populate.as === key)) {
+            let subcollectionOptions = options.subcollections.find(subcollection => subcollection.name === key)
+
+            if (subcollectionOptions) {
+                subcollectionsInfo.push({
+                    key: key,
+                    options: subcollectionOptions
+                });
+            } else {
+                let value = data[key];
+
+                if (!["function", "symbol"].includes(typeof value)) {
+                    document[key] = value as any;
+                }
+            }
+        }
+    }
+
+    if (options.converter) {
+        document = options.converter.toFirestore(document) as T;
+    }
+
+    if (options.softDelete && document[options.softDelete.field] === undefined) {
+        document = {...document, [options.softDelete.field]: false};
+    }
+
+    if (options.schema) {
+        let versionField = options.schema.versionField || defaultSchemaVersionField;
+
+        if (document[versionField] === undefined) {
+            document = {...document, [versionField]: options.schema.migrations.length};
+        }
+    }
+
+    return {document, subcollectionsInfo};
+}
+
+export const maxBatchSize = 500;
+
+export interface MultiPhaseCommitReport {
+    operationCount: number;
+    phaseCount: number;
+    committedPhaseCount: number;
+}
+
+export type WriteOptions = {
+    atomic?: boolean;
+    allowMultiPhaseCommit?: boolean;
+    onMultiPhaseCommit?: (report: MultiPhaseCommitReport) => void;
+    batchSize?: number;
+    concurrency?: number;
+    onProgress?: (result: BatchCommitResult) => void;
+};
+
+export type CommittedReferences = firestore.DocumentReference[] & { result: BatchCommitResult };
+
+function withCommitResult(references: firestore.DocumentReference[], result: BatchCommitResult): CommittedReferences {
+    return Object.assign(references, {result});
+}
+
+type FieldUpdate = { path: string[], value: any };
+
+type WriteOperation = (
+    { type: "set", reference: firestore.DocumentReference, data: DatabaseDocument } |
+    { type: "update", reference: firestore.DocumentReference, fields: FieldUpdate[] } |
+    { type: "delete", reference: firestore.DocumentReference }
+) & { beforeCommit?: () => void };
+
+function getFieldUpdatesData(fields: FieldUpdate[]): DatabaseDocument {
+    let data: DatabaseDocument = {};
+
+    for (let field of fields) {
+        let parent = data;
+
+        for (let segment of field.path.slice(0, -1)) {
+            parent = parent[segment] = parent[segment] || {};
+        }
+
+        parent[field.path[field.path.length - 1]] = field.value;
+    }
+
+    return data;
+}
+
+async function commitBatch(operations: WriteOperation[], db: firestore.Firestore = database) {
+    let batch = db.batch();
+
+    for (let operation of operations) {
+        if (operation.type === "set") {
+            batch.set(operation.reference, operation.data);
+        } else if (operation.type === "update") {
+            let [first, ...rest] = operation.fields.map(field => [new firebase.firestore.FieldPath(...field.path), field.value]);
+
+            batch.update(operation.reference, first[0], first[1], ...([] as any[]).concat(...rest));
+        } else {
+            batch.delete(operation.reference);
+        }
+    }
+
+    await batch.commit();
+}
+
+async function commitWriteOperations(operations: WriteOperation[], operation: FirestoreOperation, writeOptions: WriteOptions = {}, db: firestore.Firestore = database): Promise<BatchCommitResult> {
+    let atomic = !!writeOptions.atomic;
+    let batchSize = atomic ? maxBatchSize : Math.min(Math.max(1, writeOptions.batchSize || maxBatchSize), maxBatchSize);
+    let chunks: WriteOperation[][] = [];
+
+    for (let i = 0; i < operations.length; i += batchSize) {
+        chunks.push(operations.slice(i, i + batchSize));
+    }
+
+    let result: BatchCommitResult = {
+        operationCount: operations.length,
+        chunks: chunks.map((chunk, index) => ({
+            index: index,
+            operationCount: chunk.length,
+            documentPaths: chunk.map(operation => operation.reference.path),
+            status: "pending"
+        }))
+    };
+
+    let multiPhase = atomic && chunks.length > 1;
+
+    if (multiPhase && writeOptions.allowMultiPhaseCommit === false) {
+        throw new ValidationError(`The write requires ${operations.length} operations, which exceeds the batch limit of ${maxBatchSize}.`, operation, result.chunks[0].documentPaths[0]);
+    }
+
+    for (let writeOperation of operations) {
+        writeOperation.beforeCommit?.();
+    }
+
+    let failed = false;
+
+    await mapWithConcurrency(chunks, atomic ? 1 : writeOptions.concurrency || 1, async (chunk, index) => {
+        let chunkResult = result.chunks[index];
+
+        if (atomic && failed) return;
+
+        try {
+            await commitBatch(chunk, db);
+            chunkResult.status = "committed";
+        } catch (error) {
+            chunkResult.status = "failed";
+            chunkResult.error = error;
+            failed = true;
+        }
+
+        if (multiPhase && chunkResult.status === "committed") {
+            writeOptions.onMultiPhaseCommit?.({
+                operationCount: operations.length,
+                phaseCount: chunks.length,
+                committedPhaseCount: index + 1
+            });
+        }
+
+        writeOptions.onProgress?.(result);
+    });
+
+    if (failed) {
+        if (chunks.length === 1) throw toFirestoreOperationError(result.chunks[0].error, operation, result.chunks[0].documentPaths[0]);
+        throw new BatchCommitError(result, operation);
+    }
+
+    return result;
+}
+
+function applyBeforeWrite(data: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, type: WriteHookContext["type"]): DatabaseDocument {
+    return options.hooks && options.hooks.beforeWrite ? options.hooks.beforeWrite(data, {type, reference: documentReference}) : data;
+}
+
+function applyBeforeDelete(previous: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions) {
+    if (options.hooks && options.hooks.beforeDelete) options.hooks.beforeDelete(documentReference, previous);
+}
+
+function planSetDocument(data: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, keepIds: boolean, operations: WriteOperation[]) {
+    let documentInfo = getPlainDocumentAndInfo(applyBeforeWrite(data, documentReference, options, keepIds ? "set" : "add"), options);
+
+    operations.push({type: "set", reference: documentReference, data: documentInfo.document});
+
+    for (let subcollectionInfo of documentInfo.subcollectionsInfo) {
+        let subcollectionReference = documentReference.collection(subcollectionInfo.options.collectionPath);
+
+        for (let subdocument of data[subcollectionInfo.key as string] as DatabaseDocument[]) {
+            let subdocumentReference = keepIds && subdocument.id !== undefined ? subcollectionReference.doc(subdocument.id) : subcollectionReference.doc();
+
+            planSetDocument(subdocument, subdocumentReference, subcollectionInfo.options, keepIds, operations);
+        }
+    }
+}
+
+function planDeleteDocument(previous: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, operations: WriteOperation[]) {
+    for (let subcollectionOptions of options.subcollections) {
+        let subcollection: DatabaseDocumentWithId[] | undefined = previous[subcollectionOptions.name];
+        if (!subcollection) continue;
+
+        for (let subdocument of subcollection) {
+            planDeleteDocument(subdocument, documentReference.collection(subcollectionOptions.collectionPath).doc(subdocument.id), subcollectionOptions, operations);
+        }
+    }
+
+    operations.push({type: "delete", reference: documentReference, beforeCommit: () => applyBeforeDelete(previous, documentReference, options)});
+}
+
+export async function addDocument<T extends DatabaseDocument | DatabaseDocumentWithId>(data: T, options: FirestoreObjectOptions, db: firestore.Firestore = database, writeOptions: WriteOptions = {}): Promise<firestore.DocumentReference> {
+    let references = await addCollection([data], options, db, writeOptions);
+
+    return references[0];
+}
+
+export async function addCollection<T extends DatabaseDocument | DatabaseDocumentWithId>(collection: T[], options: FirestoreObjectOptions, db: firestore.Firestore = database, writeOptions: WriteOptions = {}): Promise<CommittedReferences> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let operations: WriteOperation[] = [];
+
+    let references = collection.map(data => {
+        let documentReference = db.collection(normalizedOptions.collectionPath).doc();
+        planSetDocument(data, documentReference, normalizedOptions, false, operations);
+        return documentReference;
+    });
+
+    return withCommitResult(references, await commitWriteOperations(operations, "add", writeOptions, db));
+}
+
+export async function setDocument<T extends DatabaseDocumentWithId>(data: T, options: FirestoreObjectOptions, db: firestore.Firestore = database, writeOptions: WriteOptions = {}): Promise<firestore.DocumentReference> {
+    let references = await setCollection([data], options, db, writeOptions);
+
+    return references[0];
+}
+
+export type SetCollectionOptions = WriteOptions & {
+    mirror?: boolean;
+};
+
+export type WritePlanOperation = {
+    type: "add" | "update" | "delete";
+    path: string;
+    data?: DatabaseDocument;
+};
+
+export interface WritePlan {
+    operations: WritePlanOperation[];
+    addCount: number;
+    updateCount: number;
+    deleteCount: number;
+}
+
+function planMirrorDocument(data: DatabaseDocument, documentReference: firestore.DocumentReference, previous: DatabaseDocument | undefined, options: NormalizedFirestoreObjectOptions, operations: WriteOperation[]) {
+    let documentInfo = getPlainDocumentAndInfo(applyBeforeWrite(data, documentReference, options, "set"), options);
+
+    operations.push({type: "set", reference: documentReference, data: documentInfo.document});
+
+    for (let subcollectionInfo of documentInfo.subcollectionsInfo) {
+        let previousSubcollection: DatabaseDocumentWithId[] = previous && previous[subcollectionInfo.options.name] || [];
+
+        planMirrorCollection(data[subcollectionInfo.key as string], documentReference.collection(subcollectionInfo.options.collectionPath), previousSubcollection, subcollectionInfo.options, operations);
+    }
+}
+
+function planMirrorCollection(collection: DatabaseDocument[], collectionReference: firestore.CollectionReference, previousCollection: DatabaseDocumentWithId[], options: NormalizedFirestoreObjectOptions, operations: WriteOperation[]): firestore.DocumentReference[] {
+    let references = collection.map(data => {
+        let documentReference = data.id !== undefined ? collectionReference.doc(data.id) : collectionReference.doc();
+        planMirrorDocument(data, documentReference, previousCollection.find(previous => previous.id === documentReference.id), options, operations);
+        return documentReference;
+    });
+
+    for (let previous of previousCollection) {
+        if (!references.some(reference => reference.id === previous.id)) {
+            planRemoveDocument(previous, collectionReference.doc(previous.id), options, false, firebase.firestore.Timestamp.now(), operations);
+        }
+    }
+
+    return references;
+}
+
+async function loadCollectionTrees(options: NormalizedFirestoreObjectOptions, db: firestore.Firestore = database): Promise<DatabaseDocumentWithId[]> {
+    let querySnapshot = await getSnapshot(getCollectionQuery(options, db), options.collectionPath);
+    let context = createLoadContext({}, true, false, true);
+
+    return Promise.all(getVisibleDocuments(querySnapshot, options).map(documentSnapshot => loadDocumentTree(documentSnapshot, options, context, db)));
+}
+
+function collectDocumentPaths(documents: DatabaseDocumentWithId[], collectionReference: firestore.CollectionReference, options: NormalizedFirestoreObjectOptions, paths: Set<string>) {
+    for (let document of documents) {
+        let documentReference = collectionReference.doc(document.id);
+
+        paths.add(documentReference.path);
+
+        for (let subcollectionOptions of options.subcollections) {
+            collectDocumentPaths(document[subcollectionOptions.name] || [], documentReference.collection(subcollectionOptions.collectionPath), subcollectionOptions, paths);
+        }
+    }
+}
+
+async function planSetCollectionOperations<T extends DatabaseDocumentWithId>(collection: T[], options: NormalizedFirestoreObjectOptions, mirror: boolean, loadPrevious: boolean, db: firestore.Firestore = database) {
+    let collectionReference = db.collection(options.collectionPath);
+    let previousCollection = mirror || loadPrevious ? await loadCollectionTrees(options, db) : [];
+    let operations: WriteOperation[] = [];
+    let references: firestore.DocumentReference[];
+
+    if (mirror) {
+        references = planMirrorCollection(collection, collectionReference, previousCollection, options, operations);
+    } else {
+        references = collection.map(data => {
+            let documentReference = collectionReference.doc(data.id);
+            planSetDocument(data, documentReference, options, true, operations);
+            return documentReference;
+        });
+    }
+
+    return {references, operations, previousCollection};
+}
+
+export async function setCollection<T extends DatabaseDocumentWithId>(collection: T[], options: FirestoreObjectOptions, db: firestore.Firestore = database, setOptions: SetCollectionOptions = {}): Promise<CommittedReferences> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let {references, operations} = await planSetCollectionOperations(collection, normalizedOptions, !!setOptions.mirror, false, db);
+
+    return withCommitResult(references, await commitWriteOperations(operations, "set", setOptions, db));
+}
+
+export async function dryRunSetCollection<T extends DatabaseDocumentWithId>(collection: T[], options: FirestoreObjectOptions, db: firestore.Firestore = database, setOptions: SetCollectionOptions = {}): Promise<WritePlan> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let {operations, previousCollection} = await planSetCollectionOperations(collection, normalizedOptions, !!setOptions.mirror, true, db);
+    let previousPaths: Set<string> = new Set();
+
+    collectDocumentPaths(previousCollection, db.collection(normalizedOptions.collectionPath), normalizedOptions, previousPaths);
+
+    let plan: WritePlan = {operations: [], addCount: 0, updateCount: 0, deleteCount: 0};
+
+    for (let operation of operations) {
+        let path = operation.reference.path;
+
+        if (operation.type === "delete") {
+            plan.operations.push({type: "delete", path});
+            plan.deleteCount++;
+        } else if (operation.type === "update") {
+            plan.operations.push({type: "update", path, data: getFieldUpdatesData(operation.fields)});
+            plan.updateCount++;
+        } else if (previousPaths.has(path)) {
+            plan.operations.push({type: "update", path, data: operation.data});
+            plan.updateCount++;
+        } else {
+            plan.operations.push({type: "add", path, data: operation.data});
+            plan.addCount++;
+        }
+    }
+
+    return plan;
+}
+
+function isEqualValue(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false;
+
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((value, i) => isEqualValue(value, b[i]));
+    }
+
+    if (isPlainObject(a) || isPlainObject(b)) {
+        if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+        let keys = Object.keys(a);
+
+        return keys.length === Object.keys(b).length && keys.every(key => b.hasOwnProperty(key) && isEqualValue(a[key], b[key]));
+    }
+
+    if (a.constructor !== b.constructor) return false;
+    if (a instanceof Date) return getProxyTarget(a).getTime() === getProxyTarget(b).getTime();
+    if (typeof a.isEqual === "function") return a.isEqual(b);
+
+    return false;
+}
+
+function diffDocumentFields(previous: DatabaseDocument, data: DatabaseDocument, changes: FieldUpdate[], deleteMissingFields: boolean, fieldPath: string[] = []) {
+    for (let key in data) {
+        if (!data.hasOwnProperty(key)) continue;
+
+        let path = [...fieldPath, key];
+        let value = data[key];
+        let previousValue = previous[key];
+
+        if (value === undefined) {
+            if (previous.hasOwnProperty(key)) changes.push({path, value: firebase.firestore.FieldValue.delete()});
+        } else if (isPlainObject(value) && isPlainObject(previousValue)) {
+            diffDocumentFields(previousValue, value, changes, true, path);
+        } else if (!isEqualValue(value, previousValue)) {
+            changes.push({path, value});
+        }
+    }
+
+    if (deleteMissingFields) {
+        for (let key in previous) {
+            if (previous.hasOwnProperty(key) && !data.hasOwnProperty(key)) {
+                changes.push({path: [...fieldPath, key], value: firebase.firestore.FieldValue.delete()});
+            }
+        }
+    }
+}
+
+function planUpdateDocument(data: DatabaseDocument, previous: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, isPartial: boolean, operations: WriteOperation[]) {
+    let documentInfo = getPlainDocumentAndInfo(data, options);
+    let previousInfo = getPlainDocumentAndInfo(previous, options);
+    let changes: FieldUpdate[] = [];
+
+    diffDocumentFields(previousInfo.document, documentInfo.document, changes, !isPartial);
+
+    if (changes.length > 0 && options.hooks && options.hooks.beforeWrite) {
+        changes = [];
+        diffDocumentFields(previousInfo.document, getPlainDocumentAndInfo(applyBeforeWrite(data, documentReference, options, "update"), options).document, changes, !isPartial);
+    }
+
+    if (changes.length > 0) {
+        operations.push({type: "update", reference: documentReference, fields: changes});
+    }
+
+    for (let subcollectionInfo of documentInfo.subcollectionsInfo) {
+        let subcollectionReference = documentReference.collection(subcollectionInfo.options.collectionPath);
+        let subcollection: DatabaseDocument[] = data[subcollectionInfo.key as string];
+        let previousSubcollection: DatabaseDocumentWithId[] = previous[subcollectionInfo.key as string] || [];
+        let keptIds = new Set<string>();
+
+        for (let subdocument of subcollection) {
+            let previousSubdocument = subdocument.id === undefined ? undefined :
+                previousSubcollection.find(previousSubdocument => previousSubdocument.id === subdocument.id);
+
+            if (previousSubdocument) {
+                keptIds.add(previousSubdocument.id);
+                planUpdateDocument(subdocument, previousSubdocument, subcollectionReference.doc(previousSubdocument.id), subcollectionInfo.options, false, operations);
+            } else {
+                let subdocumentReference = subdocument.id === undefined ? subcollectionReference.doc() : subcollectionReference.doc(subdocument.id);
+                planSetDocument(subdocument, subdocumentReference, subcollectionInfo.options, true, operations);
+            }
+        }
+
+        for (let previousSubdocument of previousSubcollection) {
+            if (!keptIds.has(previousSubdocument.id)) {
+                planRemoveDocument(previousSubdocument, subcollectionReference.doc(previousSubdocument.id), subcollectionInfo.options, false, firebase.firestore.Timestamp.now(), operations);
+            }
+        }
+    }
+}
+
+export type UpdateDocumentOptions<T extends DatabaseDocumentWithId> = WriteOptions & {
+    previous?: T;
+};
+
+async function getPreviousDocument<T extends DatabaseDocumentWithId>(id: string, data: Partial<T>, options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<T> {
+    let previousOptions: NormalizedFirestoreObjectOptions = {
+        ...options,
+        subcollections: options.subcollections.filter(subcollection => data.hasOwnProperty(subcollection.name))
+    };
+    let documentReference = db.collection(options.collectionPath).doc(id);
+    let documentSnapshot = await context.limit(() => getSnapshot(documentReference, documentReference.path));
+
+    if (!documentSnapshot.exists) throw new DocumentNotFoundError("update", documentReference.path);
+
+    return loadDocument<T>(documentSnapshot, previousOptions, context, db);
+}
+
+export async function updateDocument<T extends DatabaseDocumentWithId>(id: string, data: Partial<T>, options: FirestoreObjectOptions, db: firestore.Firestore = database, updateOptions: UpdateDocumentOptions<T> = {}): Promise<firestore.DocumentReference> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let documentReference = db.collection(normalizedOptions.collectionPath).doc(id);
+    let previous = updateOptions.previous || await getPreviousDocument<T>(id, data, normalizedOptions, createLoadContext({}, true, false, true), db);
+    let operations: WriteOperation[] = [];
+
+    planUpdateDocument(data, previous, documentReference, normalizedOptions, true, operations);
+
+    await commitWriteOperations(operations, "update", updateOptions, db);
+
+    return documentReference;
+}
+
+export type UpdateCollectionOptions<T extends DatabaseDocumentWithId> = WriteOptions & {
+    previous?: T[];
+};
+
+export async function updateCollection<T extends DatabaseDocumentWithId>(collection: (Partial<T> & { id: string })[], options: FirestoreObjectOptions, db: firestore.Firestore = database, updateOptions: UpdateCollectionOptions<T> = {}): Promise<CommittedReferences> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let context = createLoadContext({}, true, false, true);
+    let operations: WriteOperation[] = [];
+
+    let previousDocuments = await Promise.all(collection.map(data =>
+        updateOptions.previous && updateOptions.previous.find(document => document.id === data.id) ||
+        getPreviousDocument<T>(data.id, data as Partial<T>, normalizedOptions, context, db)
+    ));
+
+    let references = collection.map((data, i) => {
+        let documentReference = db.collection(normalizedOptions.collectionPath).doc(data.id);
+        planUpdateDocument(data, previousDocuments[i], documentReference, normalizedOptions, true, operations);
+        return documentReference;
+    });
+
+    return withCommitResult(references, await commitWriteOperations(operations, "update", updateOptions, db));
+}
+
+async function loadDocumentTree(documentSnapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<DatabaseDocumentWithId> {
+    let document: DatabaseDocumentWithId = {id: documentSnapshot.id, ...getSnapshotData(documentSnapshot, options, false)};
+
+    await loadSubcollectionsInto(document, documentSnapshot.ref, options.subcollections, context, db);
+
+    return document;
+}
+
+export type DeleteOptions = WriteOptions & {
+    permanent?: boolean;
+};
+
+function planSoftDeleteDocument(previous: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, deletedAt: firestore.Timestamp, operations: WriteOperation[]) {
+    if (!options.softDelete) return;
+
+    operations.push({
+        type: "update",
+        reference: documentReference,
+        fields: [
+            {path: options.softDelete.field.split("."), value: true},
+            {path: options.softDelete.timestampField.split("."), value: deletedAt}
+        ],
+        beforeCommit: () => applyBeforeDelete(previous, documentReference, options)
+    });
+
+    for (let subcollectionOptions of options.subcollections) {
+        let subcollection: DatabaseDocumentWithId[] | undefined = previous[subcollectionOptions.name];
+        if (!subcollection) continue;
+
+        for (let subdocument of subcollection) {
+            planSoftDeleteDocument(subdocument, documentReference.collection(subcollectionOptions.collectionPath).doc(subdocument.id), subcollectionOptions, deletedAt, operations);
+        }
+    }
+}
+
+function planRemoveDocument(previous: DatabaseDocument, documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, permanent: boolean, deletedAt: firestore.Timestamp, operations: WriteOperation[]) {
+    if (options.softDelete && !permanent) {
+        planSoftDeleteDocument(previous, documentReference, options, deletedAt, operations);
+    } else {
+        planDeleteDocument(previous, documentReference, options, operations);
+    }
+}
+
+export async function deleteDocument(id: string, options: FirestoreObjectOptions, db: firestore.Firestore = database, deleteOptions: DeleteOptions = {}): Promise<BatchCommitResult> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let documentReference = db.collection(normalizedOptions.collectionPath).doc(id);
+    let permanent = !!deleteOptions.permanent;
+    let operations: WriteOperation[] = [];
+
+    let documentSnapshot = await getSnapshot(documentReference, documentReference.path);
+    let documentTree = await loadDocumentTree(documentSnapshot, normalizedOptions, createLoadContext({}, true, permanent, true), db);
+
+    planRemoveDocument(documentTree, documentReference, normalizedOptions, permanent, firebase.firestore.Timestamp.now(), operations);
+
+    return commitWriteOperations(operations, "delete", deleteOptions, db);
+}
+
+export async function deleteCollection(options: FirestoreObjectOptions, db: firestore.Firestore = database, deleteOptions: DeleteOptions = {}): Promise<BatchCommitResult> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let permanent = !!deleteOptions.permanent;
+    let query = getCollectionQuery(normalizedOptions, db);
+
+    let querySnapshot = await getSnapshot(query, normalizedOptions.collectionPath);
+    let documentSnapshots = getVisibleDocuments(querySnapshot, normalizedOptions, permanent);
+    let operations: WriteOperation[] = [];
+    let deletedAt = firebase.firestore.Timestamp.now();
+
+    let context = createLoadContext({}, true, permanent, true);
+    let documentTrees = await Promise.all(documentSnapshots.map(documentSnapshot => loadDocumentTree(documentSnapshot, normalizedOptions, context, db)));
+
+    documentSnapshots.forEach((documentSnapshot, i) => {
+        planRemoveDocument(documentTrees[i], documentSnapshot.ref, normalizedOptions, permanent, deletedAt, operations);
+    });
+
+    return commitWriteOperations(operations, "delete", deleteOptions, db);
+}
+
+async function planRestoreDocument(documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions, deletedAt: firestore.Timestamp | undefined, operations: WriteOperation[], db: firestore.Firestore = database) {
+    if (!options.softDelete) return;
+
+    operations.push({
+        type: "update",
+        reference: documentReference,
+        fields: [
+            {path: options.softDelete.field.split("."), value: false},
+            {path: options.softDelete.timestampField.split("."), value: null}
+        ]
+    });
+
+    if (deletedAt === undefined) return;
+
+    for (let subcollectionOptions of options.subcollections) {
+        if (!subcollectionOptions.softDelete) continue;
+
+        let collectionReference = documentReference.collection(subcollectionOptions.collectionPath);
+        let querySnapshot = await getSnapshot(collectionReference.where(subcollectionOptions.softDelete.timestampField, "==", deletedAt), collectionReference.path);
+
+        for (let documentSnapshot of querySnapshot.docs) {
+            await planRestoreDocument(documentSnapshot.ref, subcollectionOptions, deletedAt, operations, db);
+        }
+    }
+}
+
+export async function restoreDocument(id: string, options: FirestoreObjectOptions, db: firestore.Firestore = database, writeOptions: WriteOptions = {}): Promise<BatchCommitResult> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let documentReference = db.collection(normalizedOptions.collectionPath).doc(id);
+    let softDelete = normalizedOptions.softDelete;
+
+    if (!softDelete) throw new ValidationError(`Soft delete is not enabled for ${normalizedOptions.collectionPath}.`, "restore", documentReference.path);
+
+    let documentSnapshot = await getSnapshot(documentReference, documentReference.path);
+
+    if (!documentSnapshot.exists) throw new DocumentNotFoundError("restore", documentReference.path);
+
+    let operations: WriteOperation[] = [];
+
+    if (documentSnapshot.get(softDelete.field) === true) {
+        await planRestoreDocument(documentReference, normalizedOptions, documentSnapshot.get(softDelete.timestampField), operations, db);
+    }
+
+    return commitWriteOperations(operations, "restore", writeOptions, db);
+}
+
+async function planPurgeCollection(options: NormalizedFirestoreObjectOptions, olderThan: firestore.Timestamp, context: LoadContext, operations: WriteOperation[], db: firestore.Firestore = database) {
+    let subcollections = options.subcollections.filter(subcollection => subcollection.softDelete);
+
+    if (!options.softDelete && subcollections.length === 0) return;
+
+    let querySnapshot = await context.limit(() => getSnapshot(getCollectionQuery(options, db), options.collectionPath));
+
+    if (options.softDelete) {
+        let timestampField = options.softDelete.timestampField;
+        let deletedSnapshots = querySnapshot.docs.filter(documentSnapshot => {
+            let deletedAt = documentSnapshot.get(timestampField);
+            return isDeletedSnapshot(documentSnapshot, options) && isTimestamp(deletedAt) && deletedAt.toMillis() < olderThan.toMillis();
+        });
+
+        let documentTrees = await Promise.all(deletedSnapshots.map(documentSnapshot => loadDocumentTree(documentSnapshot, options, context, db)));
+
+        deletedSnapshots.forEach((documentSnapshot, i) => {
+            planDeleteDocument(documentTrees[i], documentSnapshot.ref, options, operations);
+        });
+    }
+
+    await Promise.all(getVisibleDocuments(querySnapshot, options).map(documentSnapshot => Promise.all(subcollections.map(subcollectionOptions =>
+        planPurgeCollection(getSubcollectionOptions(documentSnapshot.ref, subcollectionOptions), olderThan, context, operations, db)
+    ))));
+}
+
+export async function purgeDeleted(options: FirestoreObjectOptions, olderThan: Date, db: firestore.Firestore = database, writeOptions: WriteOptions = {}): Promise<number> {
+    let operations: WriteOperation[] = [];
+
+    await planPurgeCollection(normalizeFirestoreObjectOptions(options), firebase.firestore.Timestamp.fromDate(olderThan), createLoadContext({}, true, true, true), operations, db);
+
+    await commitWriteOperations(operations, "purge", writeOptions, db);
+
+    return operations.length;
+}
+
+export type MigrateCollectionOptions = WriteOptions & {
+    pageSize?: number;
+};
+
+export interface MigrationResult {
+    scannedCount: number;
+    migratedCount: number;
+}
+
+function hasSchema(options: NormalizedFirestoreObjectOptions): boolean {
+    return !!options.schema || options.subcollections.some(hasSchema);
+}
+
+async function migrateCollectionDocuments(options: NormalizedFirestoreObjectOptions, migrateOptions: MigrateCollectionOptions, result: MigrationResult, db: firestore.Firestore = database) {
+    let pageSize = migrateOptions.pageSize || maxBatchSize;
+    let subcollections = options.subcollections.filter(hasSchema);
+    let lastSnapshot: firestore.QueryDocumentSnapshot | null = null;
+
+    while (true) {
+        let query = getCollectionQuery(options, db);
+        if (lastSnapshot) query = query.startAfter(lastSnapshot);
+
+        let querySnapshot: firestore.QuerySnapshot = await getSnapshot(query.limit(pageSize), options.collectionPath);
+        let operations: WriteOperation[] = [];
+
+        for (let documentSnapshot of querySnapshot.docs) {
+            let data = documentSnapshot.data();
+
+            if (options.schema && getSchemaVersion(data, options.schema) < options.schema.migrations.length) {
+                operations.push({type: "set", reference: documentSnapshot.ref, data: migrateDocumentData(data, documentSnapshot, options.schema)});
+            }
+        }
+
+        await commitWriteOperations(operations, "migrate", migrateOptions, db);
 
-export function setFirestore(firestore: firestore.Firestore) {
-    database = firestore;
-}
+        result.scannedCount += querySnapshot.size;
+        result.migratedCount += operations.length;
 
-export function getFirestore(): firestore.Firestore | undefined {
-    return database;
-}
+        for (let documentSnapshot of querySnapshot.docs) {
+            for (let subcollectionOptions of subcollections) {
+                await migrateCollectionDocuments(getSubcollectionOptions(documentSnapshot.ref, subcollectionOptions), migrateOptions, result, db);
+            }
+        }
 
-export function normalizeFirestoreObjectOptions(options: FirestoreObjectOptions): NormalizedFirestoreObjectOptions {
-    if ((options as any).__normalized) return options as NormalizedFirestoreObjectOptions;
+        if (querySnapshot.size < pageSize) return;
 
-    return {
-        collectionPath: typeof options === "string" ? options : options.collectionPath,
-        name: typeof options === "string" ? options : options.name === undefined ? options.collectionPath : options.name,
-        query: typeof options === "string" ? undefined : options.query,
-        subcollections: typeof options === "string" || options.subcollections === undefined ? [] :
-            options.subcollections.map(subcollection => normalizeFirestoreObjectOptions(subcollection)),
-        __normalized: true
-    } as NormalizedFirestoreObjectOptions;
+        lastSnapshot = querySnapshot.docs[querySnapshot.size - 1];
+    }
 }
 
-export type DocumentOrRefMatch<T extends DatabaseDocumentWithId> = DocumentRefMatch<T> | RefDocumentMatch<T>;
+export async function migrateCollection(options: FirestoreObjectOptions, db: firestore.Firestore = database, migrateOptions: MigrateCollectionOptions = {}): Promise<MigrationResult> {
+    let result: MigrationResult = {scannedCount: 0, migratedCount: 0};
 
-export interface DocumentRefMatch<T extends DatabaseDocumentWithId> {
-    id: string;
-    document: T;
-    ref: firestore.DocumentReference<T> | null;
-}
+    await migrateCollectionDocuments(normalizeFirestoreObjectOptions(options), migrateOptions, result, db);
 
-export function matchDocumentsWithRefs<T extends DatabaseDocumentWithId>(documents: T[], refs: firestore.DocumentReference<T>[]): DocumentRefMatch<T>[] {
-    return documents.map(document => ({
-        id: document.id,
-        document: document,
-        ref: refs.find(ref => ref.id === document.id) || null
-    }));
+    return result;
 }
 
-export interface RefDocumentMatch<T extends DatabaseDocumentWithId> {
+export type ExportedDocument = {
     id: string;
-    ref: firestore.DocumentReference<T>;
-    document: T | null;
+    path: string;
+    data: DatabaseDocument;
+    subcollections?: Record<string, ExportedDocument[]>;
+};
+
+export type ExportOptions = LoadOptions & {
+    pageSize?: number;
+};
+
+export type ImportIdMode = "keep" | "regenerate";
+
+export type ImportOptions = WriteOptions & {
+    ids?: ImportIdMode;
+    remapReferences?: boolean;
+};
+
+export const exportTypeKey = "$type";
+
+function isGeoPoint(value: any): value is firestore.GeoPoint {
+    return value !== null && typeof value === "object" && typeof value.latitude === "number" &&
+        typeof value.longitude === "number" && typeof value.isEqual === "function";
 }
 
-export function matchRefsWithDocuments<T extends DatabaseDocumentWithId>(refs: firestore.DocumentReference<T>[], documents: T[]): RefDocumentMatch<T>[] {
-    return refs.map(ref => ({
-        id: ref.id,
-        ref: ref,
-        document: documents.find(document => document.id === ref.id) || null
-    }));
+function isBlob(value: any): value is firestore.Blob {
+    return value !== null && typeof value === "object" && typeof value.toBase64 === "function" && typeof value.toUint8Array === "function";
 }
 
-async function loadDocument<T extends DatabaseDocumentWithId>(documentSnapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions, db: firestore.Firestore = database): Promise<T> {
-    if (!documentSnapshot.exists) throw {
-        code: "not-found",
-        message: "The requested document does not exist.",
-        name: `${options.collectionPath}/${documentSnapshot.id}`
-    } as firestore.FirestoreError;
+function encodeExportValue(value: any): any {
+    if (typeof value === "number" && !isFinite(value)) return {[exportTypeKey]: "number", value: String(value)};
+    if (isTimestamp(value)) return {[exportTypeKey]: "timestamp", seconds: value.seconds, nanoseconds: value.nanoseconds};
+    if (value instanceof Date) return {[exportTypeKey]: "date", millis: getProxyTarget(value).getTime()};
+    if (isGeoPoint(value)) return {[exportTypeKey]: "geopoint", latitude: value.latitude, longitude: value.longitude};
+    if (isBlob(value)) return {[exportTypeKey]: "bytes", base64: value.toBase64()};
+    if (isDocumentReference(value)) return {[exportTypeKey]: "reference", path: value.path};
+    if (Array.isArray(value)) return value.map(encodeExportValue);
 
-    let document: T = {
-        id: documentSnapshot.id,
-        ...documentSnapshot.data()
-    } as any;
+    if (isPlainObject(value)) {
+        let encoded: DatabaseDocument = {};
 
-    for (let subcollectionOptions of options.subcollections) {
-        subcollectionOptions = {
-            ...subcollectionOptions,
-            collectionPath: db.collection(options.collectionPath).doc(document.id).collection(subcollectionOptions.collectionPath).path
-        };
+        for (let key in value) {
+            if (value.hasOwnProperty(key)) encoded[key] = encodeExportValue(value[key]);
+        }
 
-        (document as any)[subcollectionOptions.name] = await getCollection(subcollectionOptions, db);
+        return value.hasOwnProperty(exportTypeKey) ? {[exportTypeKey]: "map", value: encoded} : encoded;
     }
 
-    return document;
+    return value;
 }
 
-export async function getDocument<T extends DatabaseDocumentWithId>(id: string, options: FirestoreObjectOptions, db: firestore.Firestore = database): Promise<T> {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let documentSnapshot = await db.collection(normalizedOptions.collectionPath).doc(id).get();
+function decodeExportValue(value: any, documentPath: string, mapPath: (path: string) => string, db: firestore.Firestore = database): any {
+    if (Array.isArray(value)) return value.map(item => decodeExportValue(item, documentPath, mapPath, db));
+    if (!isPlainObject(value)) return value;
+
+    switch (value[exportTypeKey]) {
+        case undefined:
+            break;
+        case "number":
+            return Number(value.value);
+        case "timestamp":
+            return new firebase.firestore.Timestamp(value.seconds, value.nanoseconds);
+        case "date":
+            return new Date(value.millis);
+        case "geopoint":
+            return new firebase.firestore.GeoPoint(value.latitude, value.longitude);
+        case "bytes":
+            return firebase.firestore.Blob.fromBase64String(value.base64);
+        case "reference":
+            return db.doc(mapPath(value.path));
+        case "map":
+            return decodeExportFields(value.value, documentPath, mapPath, db);
+        default:
+            throw new ValidationError(`Unknown exported value type "${value[exportTypeKey]}".`, "import", documentPath);
+    }
 
-    return loadDocument(documentSnapshot, normalizedOptions, db);
+    return decodeExportFields(value, documentPath, mapPath, db);
 }
 
-export async function getCollection<T extends DatabaseDocumentWithId>(options: FirestoreObjectOptions, db: firestore.Firestore = database): Promise<T[]> {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let query: firestore.Query = db.collection(normalizedOptions.collectionPath);
-
-    if (normalizedOptions.query) {
-        query = normalizedOptions.query(query as firestore.CollectionReference);
-    }
-
-    let collectionSnapshot = await query.get();
-    let collection = [];
+function decodeExportFields(value: DatabaseDocument, documentPath: string, mapPath: (path: string) => string, db: firestore.Firestore = database): DatabaseDocument {
+    let decoded: DatabaseDocument = {};
 
-    for (let documentSnapshot of collectionSnapshot.docs) {
-        collection.push(await loadDocument<T>(documentSnapshot, normalizedOptions, db));
+    for (let key in value) {
+        if (value.hasOwnProperty(key)) decoded[key] = decodeExportValue(value[key], documentPath, mapPath, db);
     }
 
-    return collection;
+    return decoded;
 }
 
-export function subscribeToDocument(id: string, options: FirestoreObjectOptions, onUpdate: (refPath: string[], snapshot: firestore.DocumentSnapshot | firestore.QuerySnapshot, isDocument: boolean) => void, onError?: (error: Error) => void, db: firestore.Firestore = database): () => void {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let subscriptions: Map<string, () => void> = new Map();
-    let documentPath = db.collection(normalizedOptions.collectionPath).doc(id).path;
+async function exportDocument(documentSnapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<ExportedDocument> {
+    let exported: ExportedDocument = {
+        id: documentSnapshot.id,
+        path: documentSnapshot.ref.path,
+        data: encodeExportValue(documentSnapshot.data())
+    };
 
-    subscriptions.set(documentPath, db.doc(documentPath).onSnapshot(documentSnapshot => {
-        onUpdate([], documentSnapshot, true);
-    }, onError));
+    if (context.depth > 0 && options.subcollections.length > 0) {
+        let subcontext = {...context, depth: context.depth - 1};
+        let subcollections: Record<string, ExportedDocument[]> = {};
 
-    for (let subcollectionOptions of normalizedOptions.subcollections) {
-        let options = {
-            ...subcollectionOptions,
-            collectionPath: db.doc(documentPath).collection(subcollectionOptions.collectionPath).path
-        };
+        await Promise.all(options.subcollections.map(async subcollectionOptions => {
+            subcollections[subcollectionOptions.collectionPath] = await exportCollectionDocuments(getSubcollectionOptions(documentSnapshot.ref, subcollectionOptions), subcontext, db);
+        }));
 
-        subscriptions.set(options.collectionPath, subscribeToCollection(options, (subRefPath, subSnapshot) => {
-            onUpdate([id, subcollectionOptions.collectionPath, ...subRefPath], subSnapshot, false);
-        }, onError, db));
+        exported.subcollections = subcollections;
     }
 
-    return () => {
-        for (let unsubscribe of subscriptions.values()) {
-            unsubscribe();
-        }
-    };
+    return exported;
 }
 
-export function subscribeToCollection(options: FirestoreObjectOptions, onUpdate: (refPath: string[], snapshot: firestore.QuerySnapshot) => void, onError?: (error: Error) => void, db: firestore.Firestore = database): () => void {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let subscriptions: Map<string, () => void> = new Map();
+async function exportCollectionDocuments(options: NormalizedFirestoreObjectOptions, context: LoadContext, db: firestore.Firestore = database): Promise<ExportedDocument[]> {
+    let querySnapshot = await context.limit(() => getSnapshot(getCollectionQuery(options, db), options.collectionPath));
 
-    let query: firestore.Query = db.collection(normalizedOptions.collectionPath);
+    return Promise.all(getVisibleDocuments(querySnapshot, options, context.includeDeleted).map(documentSnapshot => exportDocument(documentSnapshot, options, context, db)));
+}
 
-    if (normalizedOptions.query) {
-        query = normalizedOptions.query(query as firestore.CollectionReference);
-    }
+export async function exportCollection(options: FirestoreObjectOptions, db: firestore.Firestore = database, exportOptions: ExportOptions = {}): Promise<ExportedDocument[]> {
+    return exportCollectionDocuments(normalizeFirestoreObjectOptions(options), createLoadContext(exportOptions, true, true), db);
+}
 
-    subscriptions.set(normalizedOptions.collectionPath, query.onSnapshot(snapshot => {
-        onUpdate([], snapshot);
+export const defaultExportPageSize = 100;
 
-        for (let subcollectionOptions of normalizedOptions.subcollections) {
-            for (let documentChange of snapshot.docChanges()) {
-                let options = {
-                    ...subcollectionOptions,
-                    collectionPath: `${normalizedOptions.collectionPath}/${documentChange.doc.id}/${subcollectionOptions.collectionPath}`
-                };
+export async function exportCollectionAsNDJSON(options: FirestoreObjectOptions, write: (line: string) => void | Promise<void>, db: firestore.Firestore = database, exportOptions: ExportOptions = {}): Promise<number> {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let context = createLoadContext(exportOptions, true, true);
+    let pageSize = exportOptions.pageSize || defaultExportPageSize;
+    let lastSnapshot: firestore.QueryDocumentSnapshot | null = null;
+    let count = 0;
 
-                if (documentChange.type === "added") {
-                    let unsubscribe = subscriptions.get(options.collectionPath);
-                    if (unsubscribe) unsubscribe();
+    while (true) {
+        let query = getCollectionQuery(normalizedOptions, db);
+        if (lastSnapshot) query = query.startAfter(lastSnapshot);
 
-                    subscriptions.set(options.collectionPath, subscribeToCollection(options, (subRefPath, subSnapshot) => {
-                        onUpdate([documentChange.doc.id, subcollectionOptions.collectionPath, ...subRefPath], subSnapshot);
-                    }, onError, db));
-                } else if (documentChange.type === "removed") {
-                    let unsubscribe = subscriptions.get(options.collectionPath);
-                    if (unsubscribe) unsubscribe();
-                    subscriptions.delete(options.collectionPath);
-                }
-            }
-        }
-    }, onError));
+        let querySnapshot: firestore.QuerySnapshot = await context.limit(() => getSnapshot(query.limit(pageSize), normalizedOptions.collectionPath));
+        let exported = await Promise.all(querySnapshot.docs.map(documentSnapshot => exportDocument(documentSnapshot, normalizedOptions, context, db)));
 
-    return () => {
-        for (let unsubscribe of subscriptions.values()) {
-            unsubscribe();
+        for (let document of exported) {
+            await write(JSON.stringify(document));
         }
-    };
+
+        count += querySnapshot.size;
+
+        if (querySnapshot.size < pageSize) return count;
+
+        lastSnapshot = querySnapshot.docs[querySnapshot.size - 1];
+    }
 }
 
-type DocumentInfo<T extends DatabaseDocument> = { document: T; subcollectionsInfo: { key: keyof T; options: NormalizedFirestoreObjectOptions }[] };
+export function parseExportedCollection(text: string): ExportedDocument[] {
+    let trimmed = text.trim();
 
-function getPlainDocumentAndInfo<T extends DatabaseDocument, D extends DatabaseDocument | DatabaseDocumentWithId>(data: D, options: NormalizedFirestoreObjectOptions): DocumentInfo<T> {
-    let document: T = {} as T;
-    let subcollectionsInfo: { key: keyof T, options: NormalizedFirestoreObjectOptions }[] = [];
+    if (trimmed.startsWith("[")) return JSON.parse(trimmed);
 
-    for (let key in data) {
-        if (data.hasOwnProperty(key) && key !== "id") {
-            let subcollectionOptions = options.subcollections.find(subcollection => subcollection.name === key)
+    return trimmed.split(/\r?\n/).filter(line => line.trim() !== "").map(line => JSON.parse(line));
+}
 
-            if (subcollectionOptions) {
-                subcollectionsInfo.push({
-                    key: key,
-                    options: subcollectionOptions
-                });
-            } else {
-                let value = data[key];
+export function encodeDocuments<T extends object>(documents: T[]): DatabaseDocument[] {
+    return documents.map(encodeExportValue);
+}
 
-                if (!["function", "symbol"].includes(typeof value)) {
-                    document[key] = value as any;
-                }
+export function decodeDocuments<T extends object>(documents: DatabaseDocument[], collectionPath: string, db: firestore.Firestore = database): T[] {
+    return documents.map(document => decodeExportValue(document, `${collectionPath}/${document.id}`, path => path, db));
+}
+
+function mapImportPaths(documents: ExportedDocument[], collectionReference: firestore.CollectionReference, regenerateIds: boolean, paths: Map<string, firestore.DocumentReference>) {
+    for (let document of documents) {
+        let documentReference = regenerateIds ? collectionReference.doc() : collectionReference.doc(document.id);
+
+        paths.set(document.path, documentReference);
+
+        for (let collectionPath in document.subcollections) {
+            if (document.subcollections.hasOwnProperty(collectionPath)) {
+                mapImportPaths(document.subcollections[collectionPath], documentReference.collection(collectionPath), regenerateIds, paths);
             }
         }
     }
-
-    return {document, subcollectionsInfo};
 }
 
-async function addAllSubcollections<T extends DatabaseDocument | DatabaseDocumentWithId, D extends DatabaseDocument>(data: T, documentInfo: DocumentInfo<D>, documentReference: firestore.DocumentReference, db: firestore.Firestore = database) {
-    for (let subcollectionInfo of documentInfo.subcollectionsInfo) {
-        let subcollectionOptions = {
-            ...subcollectionInfo.options,
-            collectionPath: documentReference.collection(subcollectionInfo.options.collectionPath).path
-        };
+function planImportDocument(document: ExportedDocument, paths: Map<string, firestore.DocumentReference>, mapPath: (path: string) => string, operations: WriteOperation[], db: firestore.Firestore = database) {
+    operations.push({type: "set", reference: paths.get(document.path)!, data: decodeExportValue(document.data, document.path, mapPath, db)});
 
-        await addCollection(data[subcollectionInfo.key as any], subcollectionOptions, db);
+    for (let collectionPath in document.subcollections) {
+        if (document.subcollections.hasOwnProperty(collectionPath)) {
+            for (let subdocument of document.subcollections[collectionPath]) {
+                planImportDocument(subdocument, paths, mapPath, operations, db);
+            }
+        }
     }
 }
 
-export async function addDocument<T extends DatabaseDocument | DatabaseDocumentWithId>(data: T, options: FirestoreObjectOptions, db: firestore.Firestore = database): Promise<firestore.DocumentReference> {
+export async function importCollection(data: ExportedDocument[] | string, options: FirestoreObjectOptions, db: firestore.Firestore = database, importOptions: ImportOptions = {}): Promise<CommittedReferences> {
     let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let documents = typeof data === "string" ? parseExportedCollection(data) : data;
+    let remapReferences = importOptions.remapReferences === undefined ? true : importOptions.remapReferences;
+    let paths: Map<string, firestore.DocumentReference> = new Map();
+    let operations: WriteOperation[] = [];
 
-    let documentInfo = getPlainDocumentAndInfo(data, normalizedOptions);
-    let documentReference = await db.collection(normalizedOptions.collectionPath).add(documentInfo.document);
+    mapImportPaths(documents, db.collection(normalizedOptions.collectionPath), importOptions.ids === "regenerate", paths);
 
-    await addAllSubcollections(data, documentInfo, documentReference);
+    let mapPath = (path: string) => {
+        let reference = remapReferences ? paths.get(path) : undefined;
+        return reference ? reference.path : path;
+    };
 
-    return documentReference;
+    for (let document of documents) {
+        planImportDocument(document, paths, mapPath, operations, db);
+    }
+
+    let result = await commitWriteOperations(operations, "import", importOptions, db);
+
+    return withCommitResult(documents.map(document => paths.get(document.path)!), result);
 }
 
-export async function addCollection<T extends DatabaseDocument | DatabaseDocumentWithId>(collection: T[], options: FirestoreObjectOptions, db: firestore.Firestore = database): Promise<firestore.DocumentReference[]> {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let batch = db.batch();
-    let documentsInfo: { data: T, reference: firestore.DocumentReference, info: DocumentInfo<T> }[] = [];
+export class CollectionIndex<T extends object = any> {
 
-    for (let data of collection) {
-        let documentInfo = getPlainDocumentAndInfo(data, normalizedOptions);
-        let documentReference = db.collection(normalizedOptions.collectionPath).doc();
+    protected documents: Map<string, T> = new Map();
+    protected fieldIndexes: Map<string, Map<any, Set<string>>> = new Map();
 
-        batch.set(documentReference, documentInfo.document);
+    constructor(readonly fields: string[] = []) {
+        for (let field of fields) {
+            this.fieldIndexes.set(field, new Map());
+        }
+    }
 
-        documentsInfo.push({
-            data: data,
-            reference: documentReference,
-            info: documentInfo as any
-        });
+    get(refPath: string | string[]): T | undefined {
+        return this.documents.get(CollectionIndex.getKey(typeof refPath === "string" ? [refPath] : refPath));
     }
 
-    await batch.commit();
+    getByField(field: string, value: any): T[] {
+        let fieldIndex = this.fieldIndexes.get(field);
+        if (!fieldIndex) throw new Error(`The field "${field}" is not indexed.`);
+
+        let keys = fieldIndex.get(CollectionIndex.getValueKey(value));
 
-    for (let {data, info, reference} of documentsInfo) {
-        await addAllSubcollections(data, info, reference);
+        return keys ? Array.from(keys, key => this.documents.get(key)!) : [];
     }
 
-    return documentsInfo.map(documentInfo => documentInfo.reference);
-}
+    clear() {
+        this.documents.clear();
 
-async function setAllSubcollections<T extends DatabaseDocumentWithId, D extends DatabaseDocument>(data: T, documentInfo: DocumentInfo<D>, documentReference: firestore.DocumentReference, db: firestore.Firestore = database) {
-    for (let subcollectionInfo of documentInfo.subcollectionsInfo) {
-        let subcollectionOptions = {
-            ...subcollectionInfo.options,
-            collectionPath: documentReference.collection(subcollectionInfo.options.collectionPath).path
-        };
+        for (let fieldIndex of this.fieldIndexes.values()) {
+            fieldIndex.clear();
+        }
+    }
+
+    set(refPath: string[], document: T) {
+        let key = CollectionIndex.getKey(refPath);
 
-        await setCollection(data[subcollectionInfo.key as any], subcollectionOptions, db);
+        if (refPath.length === 1) {
+            let previous = this.documents.get(key);
+            if (previous) this.updateFieldIndexes(key, previous, false);
+            this.updateFieldIndexes(key, document, true);
+        }
+
+        this.documents.set(key, document);
     }
-}
 
-export async function setDocument<T extends DatabaseDocumentWithId>(data: T, options: FirestoreObjectOptions, db: firestore.Firestore = database): Promise<firestore.DocumentReference> {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let documentInfo = getPlainDocumentAndInfo(data, normalizedOptions);
-    let documentReference = db.collection(normalizedOptions.collectionPath).doc(data.id);
+    setTree(refPath: string[], document: T, options: NormalizedFirestoreObjectOptions) {
+        this.set(refPath, document);
 
-    await documentReference.set(documentInfo.document);
-    await setAllSubcollections(data, documentInfo, documentReference);
+        for (let subcollectionOptions of options.subcollections) {
+            for (let subdocument of (document as any)[subcollectionOptions.name] || []) {
+                this.setTree([...refPath, subcollectionOptions.collectionPath, getDocumentRefId(subdocument, subcollectionOptions)], subdocument, subcollectionOptions);
+            }
+        }
+    }
 
-    return documentReference;
-}
+    rebuild(collection: T[], options: FirestoreObjectOptions) {
+        let normalizedOptions = normalizeFirestoreObjectOptions(options);
 
-export async function setCollection<T extends DatabaseDocumentWithId>(collection: T[], options: FirestoreObjectOptions, db: firestore.Firestore = database): Promise<firestore.DocumentReference[]> {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let batch = db.batch();
-    let documentsInfo: { data: T, reference: firestore.DocumentReference, info: DocumentInfo<DatabaseDocument> }[] = [];
+        this.clear();
 
-    for (let data of collection) {
-        let documentInfo = getPlainDocumentAndInfo(data, normalizedOptions);
-        let documentReference = db.collection(normalizedOptions.collectionPath).doc(data.id);
+        for (let document of collection) {
+            this.setTree([getDocumentRefId(document as any, normalizedOptions)], document, normalizedOptions);
+        }
+    }
 
-        batch.set(documentReference, documentInfo.document);
+    delete(refPath: string[], document: any, options: NormalizedFirestoreObjectOptions) {
+        let key = CollectionIndex.getKey(refPath);
 
-        documentsInfo.push({
-            data: data,
-            reference: documentReference,
-            info: documentInfo as any
-        });
+        if (refPath.length === 1) {
+            this.updateFieldIndexes(key, document, false);
+        }
+
+        this.documents.delete(key);
+
+        for (let subcollectionOptions of options.subcollections) {
+            for (let subdocument of document[subcollectionOptions.name] || []) {
+                this.delete([...refPath, subcollectionOptions.collectionPath, getDocumentRefId(subdocument, subcollectionOptions)], subdocument, subcollectionOptions);
+            }
+        }
     }
 
-    await batch.commit();
+    protected updateFieldIndexes(key: string, document: any, add: boolean) {
+        for (let [field, fieldIndex] of this.fieldIndexes) {
+            let value = document[field];
+
+            for (let item of Array.isArray(value) ? value : [value]) {
+                let valueKey = CollectionIndex.getValueKey(item);
+                let keys = fieldIndex.get(valueKey);
 
-    for (let {data, info, reference} of documentsInfo) {
-        await setAllSubcollections(data, info, reference);
+                if (add) {
+                    if (!keys) fieldIndex.set(valueKey, keys = new Set());
+                    keys.add(key);
+                } else if (keys) {
+                    keys.delete(key);
+                    if (keys.size === 0) fieldIndex.delete(valueKey);
+                }
+            }
+        }
     }
 
-    return documentsInfo.map(documentInfo => documentInfo.reference);
-}
+    protected static getKey(refPath: string[]): string {
+        return JSON.stringify(refPath);
+    }
 
-async function deleteAllSubcollections(documentReference: firestore.DocumentReference, options: NormalizedFirestoreObjectOptions) {
-    for (let subcollectionOptions of options.subcollections) {
-        subcollectionOptions = {
-            ...subcollectionOptions,
-            collectionPath: documentReference.collection(subcollectionOptions.collectionPath).path
-        };
+    protected static getValueKey(value: any): any {
+        if (isDocumentReference(value)) return `reference:${value.path}`;
+        if (isTimestamp(value)) return `timestamp:${value.toMillis()}`;
+        if (value instanceof Date) return `timestamp:${getProxyTarget(value).getTime()}`;
 
-        await deleteCollection(subcollectionOptions);
+        return value;
     }
+
 }
 
-export async function deleteDocument(id: string, options: FirestoreObjectOptions, db: firestore.Firestore = database) {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let documentReference = db.collection(normalizedOptions.collectionPath).doc(id);
+function getOptionsFromRefPath(refPath: string[], options: NormalizedFirestoreObjectOptions): NormalizedFirestoreObjectOptions | null {
+    let refPathOptions: NormalizedFirestoreObjectOptions | undefined = options;
 
-    await documentReference.delete();
-    await deleteAllSubcollections(documentReference, normalizedOptions);
-}
+    for (let i = 1; i < refPath.length && refPathOptions; i += 2) {
+        refPathOptions = refPathOptions.subcollections.find(subcollection => subcollection.collectionPath === refPath[i]);
+    }
 
-export async function deleteCollection(options: FirestoreObjectOptions, db: firestore.Firestore = database) {
-    let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let query: firestore.Query = db.collection(normalizedOptions.collectionPath);
+    return refPathOptions || null;
+}
 
-    if (normalizedOptions.query) query = normalizedOptions.query(query as firestore.CollectionReference);
+function getIndexedObjectFromRefPath(collection: any[], index: CollectionIndex, refPath: string[], options: NormalizedFirestoreObjectOptions) {
+    let refPathOptions = getOptionsFromRefPath(refPath, options);
 
-    let querySnapshot = await query.get();
-    let batch = db.batch();
+    if (!refPathOptions) return null;
+    if (refPath.length === 0) return {object: collection, options: refPathOptions};
 
-    for (let documentSnapshot of querySnapshot.docs) {
-        batch.delete(documentSnapshot.ref);
+    if (refPath.length % 2 === 1) {
+        let document = index.get(refPath);
+        return document ? {object: document, options: refPathOptions} : null;
     }
 
-    await batch.commit();
+    let document: any = index.get(refPath.slice(0, -1));
+    let subcollection = document && document[refPathOptions.name];
 
-    for (let documentSnapshot of querySnapshot.docs) {
-        await deleteAllSubcollections(documentSnapshot.ref, normalizedOptions);
-    }
+    return subcollection ? {object: subcollection, options: refPathOptions} : null;
 }
 
 function getObjectFromRefPath(object: any[] | any, isCollection: boolean, refPath: string[], options: NormalizedFirestoreObjectOptions) {
@@ -368,7 +2210,7 @@ function getObjectFromRefPath(object: any[] | any, isCollection: boolean, refPat
             for (let i = 0; i < object.length; i++) {
                 let doc = object[i];
 
-                if (doc.id === ref) {
+                if (getDocumentRefId(doc, collectionOptions) === ref) {
                     object = doc;
                     key = i;
                     found = true;
@@ -400,39 +2242,113 @@ function getObjectFromRefPath(object: any[] | any, isCollection: boolean, refPat
 function applyDocumentChanges(document: any, snapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions): any {
     let updatedDoc: any = {
         id: snapshot.id,
-        ...snapshot.data()
+        ...getSnapshotData(snapshot, options)
     };
 
+    if (options.collectionGroup) updatedDoc[parentPathKey] = snapshot.ref.parent.path;
+
     for (let subcollection of options.subcollections) {
         updatedDoc[subcollection.name] = document && document[subcollection.name] !== undefined ? document[subcollection.name] : [];
     }
 
+    for (let populate of options.populateFields) {
+        let keepPopulated = document && document[populate.as] !== undefined && isSameReferenceValue(document[populate.field], updatedDoc[populate.field]);
+
+        updatedDoc[populate.as] = keepPopulated ? document[populate.as] : Array.isArray(updatedDoc[populate.field]) ? updatedDoc[populate.field].map(() => null) : null;
+    }
+
+    if (options.hooks && options.hooks.afterLoad) {
+        updatedDoc = options.hooks.afterLoad(updatedDoc, snapshot);
+    }
+
     return updatedDoc;
 }
 
-function applyCollectionChanges(collection: any[], snapshot: firestore.QuerySnapshot, options: NormalizedFirestoreObjectOptions) {
+function applyPopulatedChanges(root: any, isCollection: boolean, refPath: string[], snapshot: firestore.DocumentSnapshot, options: NormalizedFirestoreObjectOptions, index?: CollectionIndex) {
+    let field = refPath[refPath.length - 1].substring(populateRefPathPrefix.length);
+    let objectInfo = index ? getIndexedObjectFromRefPath(root, index, refPath.slice(0, -1), options) :
+        getObjectFromRefPath(root, isCollection, refPath.slice(0, -1), options);
+
+    if (!objectInfo || !objectInfo.object) return;
+
+    let document = objectInfo.object;
+    let populate = objectInfo.options.populateFields.find(populate => populate.field === field);
+
+    if (!populate) return;
+
+    let populated = snapshot.exists ? applyDocumentChanges(null, snapshot, {...populate.options, collectionPath: snapshot.ref.parent.path}) : null;
+    let value = document[populate.field];
+
+    if (Array.isArray(value)) {
+        let previous: any[] = Array.isArray(document[populate.as]) ? document[populate.as] : [];
+
+        document[populate.as] = value.map((reference, i) =>
+            isDocumentReference(reference) && reference.path === snapshot.ref.path ? populated : previous[i] === undefined ? null : previous[i]
+        );
+    } else if (isDocumentReference(value) && value.path === snapshot.ref.path) {
+        document[populate.as] = populated;
+    }
+}
+
+function isPopulateRefPath(refPath: string[]): boolean {
+    return refPath.length > 0 && refPath[refPath.length - 1].startsWith(populateRefPathPrefix);
+}
+
+function findDocumentPosition(collection: any[], expectedPosition: number, refId: string, options: NormalizedFirestoreObjectOptions): number {
+    let expected = collection[expectedPosition];
+    if (expected && getDocumentRefId(expected, options) === refId) return expectedPosition;
+
+    return collection.findIndex(document => getDocumentRefId(document, options) === refId);
+}
+
+function applyCollectionChanges(collection: any[], snapshot: firestore.QuerySnapshot, options: NormalizedFirestoreObjectOptions, index?: CollectionIndex, refPath: string[] = []) {
     for (let documentChange of snapshot.docChanges()) {
+        let refId = getSnapshotRefId(documentChange.doc, options);
+        let documentRefPath = [...refPath, refId];
+
         if (documentChange.type === "added") {
             let doc = applyDocumentChanges(null, documentChange.doc, options);
+            let localPosition = index && !index.get(documentRefPath) ? -1 : findDocumentPosition(collection, documentChange.newIndex, refId, options);
+
+            if (localPosition !== -1) {
+                index?.delete(documentRefPath, collection[localPosition], options);
+                collection.splice(localPosition, 1);
+            }
 
-            collection.splice(documentChange.newIndex, 0, doc);
+            index?.set(documentRefPath, doc);
+            collection.splice(Math.min(documentChange.newIndex, collection.length), 0, doc);
         } else if (documentChange.type === "modified") {
-            let updatedDocument = applyDocumentChanges(collection[documentChange.oldIndex], documentChange.doc, options);
+            let position = findDocumentPosition(collection, documentChange.oldIndex, refId, options);
+            if (position === -1) continue;
+
+            let updatedDocument = applyDocumentChanges(collection[position], documentChange.doc, options);
+
+            index?.set(documentRefPath, updatedDocument);
 
             if (documentChange.oldIndex === documentChange.newIndex) {
-                collection.splice(documentChange.oldIndex, 1, updatedDocument);
+                collection.splice(position, 1, updatedDocument);
             } else {
-                collection.splice(documentChange.oldIndex, 1);
-                collection.splice(documentChange.newIndex, 0, updatedDocument);
+                collection.splice(position, 1);
+                collection.splice(Math.min(documentChange.newIndex, collection.length), 0, updatedDocument);
             }
         } else if (documentChange.type === "removed") {
-            collection.splice(documentChange.oldIndex, 1);
+            let position = findDocumentPosition(collection, documentChange.oldIndex, refId, options);
+            if (position === -1) continue;
+
+            index?.delete(documentRefPath, collection[position], options);
+            collection.splice(position, 1);
         }
     }
 }
 
 export function updateDocumentFromSnapshot<T extends object>(document: T, options: FirestoreObjectOptions, refPath: string[], snapshot: firestore.DocumentSnapshot | firestore.QuerySnapshot, isDocument: boolean): T {
     let normalizedOptions = normalizeFirestoreObjectOptions(options);
+
+    if (isPopulateRefPath(refPath)) {
+        applyPopulatedChanges(document, false, refPath, snapshot as firestore.DocumentSnapshot, normalizedOptions);
+        return document;
+    }
+
     let objectInfo = getObjectFromRefPath(document, false, refPath, normalizedOptions);
 
     if (!objectInfo) return document;
@@ -452,13 +2368,91 @@ export function updateDocumentFromSnapshot<T extends object>(document: T, option
     return document;
 }
 
-export function updateCollectionFromSnapshot<T extends object>(collection: T[], options: FirestoreObjectOptions, refPath: string[], snapshot: firestore.QuerySnapshot): T[] {
+export function updateCollectionFromSnapshot<T extends object>(collection: T[], options: FirestoreObjectOptions, refPath: string[], snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot, index?: CollectionIndex<T>): T[] {
     let normalizedOptions = normalizeFirestoreObjectOptions(options);
-    let objectInfo = getObjectFromRefPath(collection, true, refPath, normalizedOptions);
+
+    if (isPopulateRefPath(refPath)) {
+        applyPopulatedChanges(collection, true, refPath, snapshot as firestore.DocumentSnapshot, normalizedOptions, index);
+        return collection;
+    }
+
+    let objectInfo = index ? getIndexedObjectFromRefPath(collection, index, refPath, normalizedOptions) :
+        getObjectFromRefPath(collection, true, refPath, normalizedOptions);
 
     if (!objectInfo) return collection;
 
-    applyCollectionChanges(objectInfo.object, snapshot, objectInfo.options);
+    applyCollectionChanges(objectInfo.object, snapshot as firestore.QuerySnapshot, objectInfo.options, index, refPath);
 
     return collection;
 }
+
+export function reconcileCollectionFromSnapshot<T extends object>(collection: T[], options: FirestoreObjectOptions, snapshot: firestore.QuerySnapshot, index?: CollectionIndex<T>): T[] {
+    let normalizedOptions = normalizeFirestoreObjectOptions(options);
+    let previous: Map<string, T> = new Map(collection.map(document => [getDocumentRefId(document as any, normalizedOptions), document] as [string, T]));
+
+    let reconciled: T[] = snapshot.docs.map(documentSnapshot =>
+        applyDocumentChanges(previous.get(getSnapshotRefId(documentSnapshot, normalizedOptions)) || null, documentSnapshot, normalizedOptions)
+    );
+
+    index?.rebuild(reconciled, normalizedOptions);
+
+    return reconciled;
+}
+
+export function getRefPathCollectionOptions(options: FirestoreObjectOptions, refPath: string[], db: firestore.Firestore = database): NormalizedFirestoreObjectOptions | null {
+    let collectionOptions = normalizeFirestoreObjectOptions(options);
+
+    for (let i = 0; i < refPath.length; i += 2) {
+        let documentReference = collectionOptions.collectionGroup ? db.doc(refPath[i]) : db.collection(collectionOptions.collectionPath).doc(refPath[i]);
+
+        if (i + 1 === refPath.length) {
+            return {...collectionOptions, collectionPath: documentReference.parent.path, collectionGroup: false};
+        }
+
+        let subcollectionOptions = collectionOptions.subcollections.find(subcollection => subcollection.collectionPath === refPath[i + 1]);
+        if (!subcollectionOptions) return null;
+
+        collectionOptions = getSubcollectionOptions(documentReference, subcollectionOptions);
+    }
+
+    return collectionOptions;
+}
+
+export interface DocumentPosition<T> {
+    document: T;
+    position: number;
+}
+
+function getRefPathParent(collection: any[], options: NormalizedFirestoreObjectOptions, refPath: string[], index?: CollectionIndex) {
+    return index ? getIndexedObjectFromRefPath(collection, index, refPath.slice(0, -1), options) :
+        getObjectFromRefPath(collection, true, refPath.slice(0, -1), options);
+}
+
+export function getDocumentFromRefPath<T extends object>(collection: T[], options: FirestoreObjectOptions, refPath: string[], index?: CollectionIndex<T>): DocumentPosition<T> | null {
+    let parentInfo = getRefPathParent(collection, normalizeFirestoreObjectOptions(options), refPath, index);
+    if (!parentInfo) return null;
+
+    let position = findDocumentPosition(parentInfo.object, -1, refPath[refPath.length - 1], parentInfo.options);
+
+    return position === -1 ? null : {document: parentInfo.object[position], position};
+}
+
+export function setDocumentAtRefPath<T extends object>(collection: T[], options: FirestoreObjectOptions, refPath: string[], document: T | null, index?: CollectionIndex<T>, position?: number) {
+    let parentInfo = getRefPathParent(collection, normalizeFirestoreObjectOptions(options), refPath, index);
+    if (!parentInfo) return;
+
+    let documents: any[] = parentInfo.object;
+    let currentPosition = findDocumentPosition(documents, -1, refPath[refPath.length - 1], parentInfo.options);
+
+    if (currentPosition !== -1) {
+        index?.delete(refPath, documents[currentPosition], parentInfo.options);
+        documents.splice(currentPosition, 1);
+    }
+
+    if (document) {
+        let newPosition = currentPosition !== -1 ? currentPosition : position === undefined ? documents.length : Math.min(position, documents.length);
+
+        documents.splice(newPosition, 0, document);
+        index?.setTree(refPath, document, parentInfo.options);
+    }
+}
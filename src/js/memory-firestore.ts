@@ -0,0 +1,1080 @@
+import {firestore} from "firebase/app";
+import {isPlainObject, randomString} from "./utils";
+
+type DocumentData = { [key: string]: any };
+
+type StoredDocument = {
+    data: DocumentData;
+    version: number;
+};
+
+type QueryFilter = {
+    fieldPath: string;
+    opStr: firestore.WhereFilterOp;
+    value: any;
+};
+
+type QueryOrder = {
+    fieldPath: string;
+    direction: firestore.OrderByDirection;
+};
+
+type QueryBound = {
+    snapshot?: MemoryDocumentSnapshot;
+    values: any[];
+    before: boolean;
+};
+
+type QueryConstraints = {
+    filters: QueryFilter[];
+    orders: QueryOrder[];
+    limit?: number;
+    start?: QueryBound;
+    end?: QueryBound;
+};
+
+type SnapshotObserver<T> = {
+    next?: (snapshot: T) => void;
+    error?: (error: Error) => void;
+};
+
+type SnapshotListener = {
+    target: MemoryQuery | MemoryDocumentReference;
+    onNext: (snapshot: any) => void;
+    onError?: (error: Error) => void;
+    includeMetadataChanges: boolean;
+    previousDocuments: MemoryQueryDocumentSnapshot[] | null;
+    previousVersion?: number | null;
+    previousMetadata?: MemorySnapshotMetadata;
+    active: boolean;
+};
+
+type PendingWrite =
+    { type: "set", path: string, data: DocumentData, merge: boolean } |
+    { type: "update", path: string, changes: [string[], any][] } |
+    { type: "delete", path: string };
+
+const documentIdFieldPath = "__name__";
+
+export function createFirestoreError(code: firestore.FirestoreErrorCode, message: string): firestore.FirestoreError {
+    let error = new Error(message) as Error & { code: firestore.FirestoreErrorCode };
+
+    error.name = "FirebaseError";
+    error.code = code;
+
+    return error as firestore.FirestoreError;
+}
+
+function splitPath(path: string): string[] {
+    return path.split("/").filter(segment => segment.length > 0);
+}
+
+// FieldPath and FieldValue expose no public accessors, the SDK internals _internalPath and _methodName are read instead
+function normalizeFieldPath(fieldPath: string | firestore.FieldPath): string {
+    if (typeof fieldPath === "string") return fieldPath;
+
+    let internalPath = (fieldPath as any)._internalPath;
+
+    if (internalPath && typeof internalPath.canonicalString === "function") {
+        return internalPath.canonicalString();
+    }
+
+    throw new Error("Unsupported field path.");
+}
+
+function getFieldSegments(fieldPath: string | firestore.FieldPath): string[] {
+    if (typeof fieldPath === "string") return fieldPath.split(".");
+
+    let internalPath = (fieldPath as any)._internalPath;
+
+    if (internalPath && typeof internalPath.toArray === "function") {
+        return internalPath.toArray();
+    }
+
+    throw new Error("Unsupported field path.");
+}
+
+function getFieldValueMethod(value: any): string | undefined {
+    return value !== null && typeof value === "object" && typeof value._methodName === "string" ? value._methodName : undefined;
+}
+
+function cloneValue(value: any): any {
+    if (Array.isArray(value)) return value.map(item => cloneValue(item));
+
+    if (isPlainObject(value)) {
+        let clone: DocumentData = {};
+
+        for (let key in value) {
+            if (value.hasOwnProperty(key)) clone[key] = cloneValue(value[key]);
+        }
+
+        return clone;
+    }
+
+    return value;
+}
+
+function resolveFieldValue(value: any, previousValue: any): any {
+    let method = getFieldValueMethod(value);
+
+    if (method === "FieldValue.serverTimestamp") return MemoryTimestamp.now();
+    if (method === "FieldValue.increment") return (typeof previousValue === "number" ? previousValue : 0) + value._operand;
+
+    if (method === "FieldValue.arrayUnion") {
+        let array: any[] = Array.isArray(previousValue) ? [...previousValue] : [];
+
+        for (let element of value._elements) {
+            if (!array.some(item => compareValues(item, element) === 0)) array.push(cloneValue(element));
+        }
+
+        return array;
+    }
+
+    if (method === "FieldValue.arrayRemove") {
+        let array: any[] = Array.isArray(previousValue) ? previousValue : [];
+
+        return array.filter(item => !value._elements.some((element: any) => compareValues(item, element) === 0));
+    }
+
+    if (Array.isArray(value)) return value.map(item => resolveFieldValue(item, undefined));
+
+    if (isPlainObject(value)) {
+        let resolved: DocumentData = {};
+
+        for (let key in value) {
+            if (value.hasOwnProperty(key) && getFieldValueMethod(value[key]) !== "FieldValue.delete") {
+                resolved[key] = resolveFieldValue(value[key], previousValue && previousValue[key]);
+            }
+        }
+
+        return resolved;
+    }
+
+    return value;
+}
+
+function mergeValues(previous: DocumentData, data: DocumentData): DocumentData {
+    let merged: DocumentData = {...previous};
+
+    for (let key in data) {
+        if (!data.hasOwnProperty(key)) continue;
+
+        let value = data[key];
+
+        if (getFieldValueMethod(value) === "FieldValue.delete") {
+            delete merged[key];
+        } else if (isPlainObject(value) && isPlainObject(previous[key])) {
+            merged[key] = mergeValues(previous[key], value);
+        } else {
+            merged[key] = resolveFieldValue(value, previous[key]);
+        }
+    }
+
+    return merged;
+}
+
+function getField(data: DocumentData, fieldPath: string): any {
+    let value: any = data;
+
+    for (let segment of fieldPath.split(".")) {
+        if (!isPlainObject(value)) return undefined;
+        value = value[segment];
+    }
+
+    return value;
+}
+
+function setField(data: DocumentData, segments: string[], value: any) {
+    let parent = data;
+
+    for (let segment of segments.slice(0, -1)) {
+        if (!isPlainObject(parent[segment])) parent[segment] = {};
+        parent = parent[segment];
+    }
+
+    let key = segments[segments.length - 1];
+
+    if (getFieldValueMethod(value) === "FieldValue.delete") {
+        delete parent[key];
+    } else {
+        parent[key] = resolveFieldValue(value, parent[key]);
+    }
+}
+
+function isTimestampLike(value: any): boolean {
+    return value instanceof Date || value !== null && typeof value === "object" && typeof value.toMillis === "function";
+}
+
+function isReferenceLike(value: any): boolean {
+    return value !== null && typeof value === "object" && typeof value.path === "string" && typeof value.collection === "function";
+}
+
+function isGeoPointLike(value: any): boolean {
+    return value !== null && typeof value === "object" && typeof value.latitude === "number" && typeof value.longitude === "number";
+}
+
+function isBytesLike(value: any): boolean {
+    return value !== null && typeof value === "object" && typeof value.toBase64 === "function";
+}
+
+function getTypeOrder(value: any): number {
+    if (value === null || value === undefined) return 0;
+    if (typeof value === "boolean") return 1;
+    if (typeof value === "number") return 2;
+    if (isTimestampLike(value)) return 3;
+    if (typeof value === "string") return 4;
+    if (isBytesLike(value)) return 5;
+    if (isReferenceLike(value)) return 6;
+    if (isGeoPointLike(value)) return 7;
+    if (Array.isArray(value)) return 8;
+
+    return 9;
+}
+
+function comparePrimitives(a: any, b: any): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function comparePaths(a: string, b: string): number {
+    let aSegments = splitPath(a);
+    let bSegments = splitPath(b);
+
+    for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+        let result = comparePrimitives(aSegments[i], bSegments[i]);
+        if (result !== 0) return result;
+    }
+
+    return comparePrimitives(aSegments.length, bSegments.length);
+}
+
+export function compareValues(a: any, b: any): number {
+    let typeOrder = comparePrimitives(getTypeOrder(a), getTypeOrder(b));
+
+    if (typeOrder !== 0) return typeOrder;
+
+    switch (getTypeOrder(a)) {
+        case 0:
+            return 0;
+        case 3:
+            return comparePrimitives(a instanceof Date ? a.getTime() : a.toMillis(), b instanceof Date ? b.getTime() : b.toMillis());
+        case 5:
+            return comparePrimitives(a.toBase64(), b.toBase64());
+        case 6:
+            return comparePaths(a.path, b.path);
+        case 7:
+            return comparePrimitives(a.latitude, b.latitude) || comparePrimitives(a.longitude, b.longitude);
+        case 8:
+            for (let i = 0; i < Math.min(a.length, b.length); i++) {
+                let result = compareValues(a[i], b[i]);
+                if (result !== 0) return result;
+            }
+
+            return comparePrimitives(a.length, b.length);
+        case 9:
+            let aKeys = Object.keys(a).sort();
+            let bKeys = Object.keys(b).sort();
+
+            for (let i = 0; i < Math.min(aKeys.length, bKeys.length); i++) {
+                let result = comparePrimitives(aKeys[i], bKeys[i]) || compareValues(a[aKeys[i]], b[bKeys[i]]);
+                if (result !== 0) return result;
+            }
+
+            return comparePrimitives(aKeys.length, bKeys.length);
+        default:
+            return comparePrimitives(a, b);
+    }
+}
+
+function matchesFilter(value: any, filter: QueryFilter): boolean {
+    if (value === undefined) return false;
+
+    switch (filter.opStr) {
+        case "<":
+            return getTypeOrder(value) === getTypeOrder(filter.value) && compareValues(value, filter.value) < 0;
+        case "<=":
+            return getTypeOrder(value) === getTypeOrder(filter.value) && compareValues(value, filter.value) <= 0;
+        case "==":
+            return compareValues(value, filter.value) === 0;
+        case ">=":
+            return getTypeOrder(value) === getTypeOrder(filter.value) && compareValues(value, filter.value) >= 0;
+        case ">":
+            return getTypeOrder(value) === getTypeOrder(filter.value) && compareValues(value, filter.value) > 0;
+        case "array-contains":
+            return Array.isArray(value) && value.some(item => compareValues(item, filter.value) === 0);
+        case "in":
+            return (filter.value as any[]).some(item => compareValues(value, item) === 0);
+        case "array-contains-any":
+            return Array.isArray(value) && value.some(item => (filter.value as any[]).some(candidate => compareValues(item, candidate) === 0));
+    }
+
+    return false;
+}
+
+export class MemoryTimestamp {
+
+    constructor(readonly seconds: number, readonly nanoseconds: number) {
+    }
+
+    static now(): MemoryTimestamp {
+        return MemoryTimestamp.fromMillis(Date.now());
+    }
+
+    static fromDate(date: Date): MemoryTimestamp {
+        return MemoryTimestamp.fromMillis(date.getTime());
+    }
+
+    static fromMillis(milliseconds: number): MemoryTimestamp {
+        let seconds = Math.floor(milliseconds / 1000);
+
+        return new MemoryTimestamp(seconds, Math.round((milliseconds - seconds * 1000) * 1e6));
+    }
+
+    toDate(): Date {
+        return new Date(this.toMillis());
+    }
+
+    toMillis(): number {
+        return this.seconds * 1000 + this.nanoseconds / 1e6;
+    }
+
+    isEqual(other: MemoryTimestamp): boolean {
+        return other.seconds === this.seconds && other.nanoseconds === this.nanoseconds;
+    }
+
+    valueOf(): string {
+        return `${this.seconds}.${this.nanoseconds}`;
+    }
+
+}
+
+export class MemorySnapshotMetadata {
+
+    constructor(readonly hasPendingWrites: boolean = false, readonly fromCache: boolean = false) {
+    }
+
+    isEqual(other: MemorySnapshotMetadata): boolean {
+        return other.hasPendingWrites === this.hasPendingWrites && other.fromCache === this.fromCache;
+    }
+
+}
+
+export class MemoryDocumentSnapshot {
+
+    constructor(readonly ref: MemoryDocumentReference, protected readonly documentData: DocumentData | undefined, readonly version: number | null,
+                readonly metadata: MemorySnapshotMetadata = new MemorySnapshotMetadata()) {
+    }
+
+    get id(): string {
+        return this.ref.id;
+    }
+
+    get exists(): boolean {
+        return this.documentData !== undefined;
+    }
+
+    data(): DocumentData | undefined {
+        return cloneValue(this.documentData);
+    }
+
+    get(fieldPath: string | firestore.FieldPath): any {
+        let path = normalizeFieldPath(fieldPath);
+
+        if (path === documentIdFieldPath) return this.ref;
+        if (this.documentData === undefined) return undefined;
+
+        return cloneValue(getField(this.documentData, path));
+    }
+
+    isEqual(other: MemoryDocumentSnapshot): boolean {
+        return other.ref.isEqual(this.ref) && other.version === this.version;
+    }
+
+}
+
+export class MemoryQueryDocumentSnapshot extends MemoryDocumentSnapshot {
+
+    data(): DocumentData {
+        return super.data()!;
+    }
+
+}
+
+export class MemoryDocumentChange {
+
+    constructor(readonly type: firestore.DocumentChangeType, readonly doc: MemoryQueryDocumentSnapshot, readonly oldIndex: number, readonly newIndex: number) {
+    }
+
+}
+
+export class MemoryQuerySnapshot {
+
+    constructor(readonly query: MemoryQuery, readonly docs: MemoryQueryDocumentSnapshot[], protected readonly changes: MemoryDocumentChange[],
+                readonly metadata: MemorySnapshotMetadata = new MemorySnapshotMetadata()) {
+    }
+
+    get size(): number {
+        return this.docs.length;
+    }
+
+    get empty(): boolean {
+        return this.docs.length === 0;
+    }
+
+    docChanges(): MemoryDocumentChange[] {
+        return this.changes;
+    }
+
+    forEach(callback: (result: MemoryQueryDocumentSnapshot) => void, thisArg?: any) {
+        this.docs.forEach(callback, thisArg);
+    }
+
+}
+
+export class MemoryQuery {
+
+    constructor(readonly firestore: MemoryFirestore, readonly collectionPath: string, protected readonly constraints: QueryConstraints,
+                readonly collectionGroup: boolean = false) {
+    }
+
+    protected withConstraints(constraints: Partial<QueryConstraints>): MemoryQuery {
+        return new MemoryQuery(this.firestore, this.collectionPath, {...this.constraints, ...constraints}, this.collectionGroup);
+    }
+
+    where(fieldPath: string | firestore.FieldPath, opStr: firestore.WhereFilterOp, value: any): MemoryQuery {
+        return this.withConstraints({
+            filters: [...this.constraints.filters, {fieldPath: normalizeFieldPath(fieldPath), opStr, value}]
+        });
+    }
+
+    orderBy(fieldPath: string | firestore.FieldPath, directionStr: firestore.OrderByDirection = "asc"): MemoryQuery {
+        return this.withConstraints({
+            orders: [...this.constraints.orders, {fieldPath: normalizeFieldPath(fieldPath), direction: directionStr}]
+        });
+    }
+
+    limit(limit: number): MemoryQuery {
+        return this.withConstraints({limit});
+    }
+
+    startAt(...fieldValues: any[]): MemoryQuery {
+        return this.withConstraints({start: this.createBound(fieldValues, true)});
+    }
+
+    startAfter(...fieldValues: any[]): MemoryQuery {
+        return this.withConstraints({start: this.createBound(fieldValues, false)});
+    }
+
+    endBefore(...fieldValues: any[]): MemoryQuery {
+        return this.withConstraints({end: this.createBound(fieldValues, true)});
+    }
+
+    endAt(...fieldValues: any[]): MemoryQuery {
+        return this.withConstraints({end: this.createBound(fieldValues, false)});
+    }
+
+    protected createBound(fieldValues: any[], before: boolean): QueryBound {
+        if (fieldValues[0] instanceof MemoryDocumentSnapshot) {
+            return {snapshot: fieldValues[0], values: [], before};
+        }
+
+        return {values: fieldValues, before};
+    }
+
+    get(options?: firestore.GetOptions): Promise<MemoryQuerySnapshot> {
+        return this.firestore.readQuery(this);
+    }
+
+    onSnapshot(...args: any[]): () => void {
+        return this.firestore.listen(this, args);
+    }
+
+    isEqual(other: MemoryQuery): boolean {
+        return other.firestore === this.firestore && other.collectionPath === this.collectionPath && other.collectionGroup === this.collectionGroup &&
+            compareValues(other.describeConstraints(), this.describeConstraints()) === 0;
+    }
+
+    protected describeConstraints(): DocumentData {
+        const describeBound = (bound?: QueryBound) => bound && {
+            values: bound.snapshot ? [bound.snapshot.ref.path, bound.snapshot.version] : bound.values,
+            before: bound.before
+        };
+
+        return {
+            filters: this.constraints.filters,
+            orders: this.constraints.orders,
+            limit: this.constraints.limit === undefined ? null : this.constraints.limit,
+            start: describeBound(this.constraints.start) || null,
+            end: describeBound(this.constraints.end) || null
+        };
+    }
+
+    protected getOrders(): QueryOrder[] {
+        let orders = this.constraints.orders;
+        let lastDirection = orders.length > 0 ? orders[orders.length - 1].direction : "asc";
+
+        return orders.some(order => order.fieldPath === documentIdFieldPath) ? orders :
+            [...orders, {fieldPath: documentIdFieldPath, direction: lastDirection}];
+    }
+
+    protected getOrderValue(path: string, data: DocumentData, fieldPath: string): any {
+        return fieldPath === documentIdFieldPath ? path : getField(data, fieldPath);
+    }
+
+    compareDocuments(a: { path: string, data: DocumentData }, b: { path: string, data: DocumentData }): number {
+        for (let order of this.getOrders()) {
+            let result = order.fieldPath === documentIdFieldPath ? comparePaths(a.path, b.path) :
+                compareValues(getField(a.data, order.fieldPath), getField(b.data, order.fieldPath));
+
+            if (result !== 0) return order.direction === "desc" ? -result : result;
+        }
+
+        return 0;
+    }
+
+    protected compareToBound(path: string, data: DocumentData, bound: QueryBound): number {
+        let orders = this.getOrders();
+        let values = bound.snapshot ?
+            orders.map(order => order.fieldPath === documentIdFieldPath ? bound.snapshot!.ref : bound.snapshot!.get(order.fieldPath)) :
+            bound.values;
+
+        for (let i = 0; i < Math.min(orders.length, values.length); i++) {
+            let order = orders[i];
+            let result = order.fieldPath === documentIdFieldPath ?
+                comparePaths(path, isReferenceLike(values[i]) ? values[i].path : `${this.collectionPath}/${values[i]}`) :
+                compareValues(getField(data, order.fieldPath), values[i]);
+
+            if (result !== 0) return order.direction === "desc" ? -result : result;
+        }
+
+        return 0;
+    }
+
+    matches(path: string, data: DocumentData): boolean {
+        let segments = splitPath(path);
+
+        if (this.collectionGroup ? segments[segments.length - 2] !== this.collectionPath :
+            segments.slice(0, -1).join("/") !== splitPath(this.collectionPath).join("/")) return false;
+
+        for (let filter of this.constraints.filters) {
+            if (!matchesFilter(this.getOrderValue(path, data, filter.fieldPath), filter)) return false;
+        }
+
+        for (let order of this.constraints.orders) {
+            if (this.getOrderValue(path, data, order.fieldPath) === undefined) return false;
+        }
+
+        return true;
+    }
+
+    applyBoundsAndLimit<T extends { path: string, data: DocumentData }>(documents: T[]): T[] {
+        let {start, end, limit} = this.constraints;
+
+        if (start) {
+            documents = documents.filter(document => {
+                let result = this.compareToBound(document.path, document.data, start!);
+                return start!.before ? result >= 0 : result > 0;
+            });
+        }
+
+        if (end) {
+            documents = documents.filter(document => {
+                let result = this.compareToBound(document.path, document.data, end!);
+                return end!.before ? result < 0 : result <= 0;
+            });
+        }
+
+        return limit === undefined ? documents : documents.slice(0, limit);
+    }
+
+}
+
+export class MemoryCollectionReference extends MemoryQuery {
+
+    constructor(firestore: MemoryFirestore, collectionPath: string) {
+        super(firestore, collectionPath, {filters: [], orders: []});
+
+        if (splitPath(collectionPath).length % 2 !== 1) {
+            throw new Error(`Invalid collection path "${collectionPath}".`);
+        }
+    }
+
+    get id(): string {
+        let segments = splitPath(this.collectionPath);
+        return segments[segments.length - 1];
+    }
+
+    get path(): string {
+        return splitPath(this.collectionPath).join("/");
+    }
+
+    get parent(): MemoryDocumentReference | null {
+        let segments = splitPath(this.collectionPath);
+        return segments.length > 1 ? new MemoryDocumentReference(this.firestore, segments.slice(0, -1).join("/")) : null;
+    }
+
+    doc(documentPath?: string): MemoryDocumentReference {
+        return new MemoryDocumentReference(this.firestore, `${this.path}/${documentPath === undefined ? randomString(20) : documentPath}`);
+    }
+
+    async add(data: DocumentData): Promise<MemoryDocumentReference> {
+        let reference = this.doc();
+
+        await reference.set(data);
+
+        return reference;
+    }
+
+    isEqual(other: MemoryQuery): boolean {
+        return other instanceof MemoryCollectionReference && other.firestore === this.firestore && other.path === this.path;
+    }
+
+}
+
+export class MemoryDocumentReference {
+
+    readonly path: string;
+
+    constructor(readonly firestore: MemoryFirestore, documentPath: string) {
+        this.path = splitPath(documentPath).join("/");
+
+        if (splitPath(documentPath).length % 2 !== 0) {
+            throw new Error(`Invalid document path "${documentPath}".`);
+        }
+    }
+
+    get id(): string {
+        let segments = splitPath(this.path);
+        return segments[segments.length - 1];
+    }
+
+    get parent(): MemoryCollectionReference {
+        return new MemoryCollectionReference(this.firestore, splitPath(this.path).slice(0, -1).join("/"));
+    }
+
+    collection(collectionPath: string): MemoryCollectionReference {
+        return new MemoryCollectionReference(this.firestore, `${this.path}/${collectionPath}`);
+    }
+
+    get(options?: firestore.GetOptions): Promise<MemoryDocumentSnapshot> {
+        return this.firestore.readDocument(this);
+    }
+
+    set(data: DocumentData, options?: firestore.SetOptions): Promise<void> {
+        return this.firestore.batch().set(this, data, options).commit();
+    }
+
+    update(dataOrField: DocumentData | string | firestore.FieldPath, ...moreFieldsAndValues: any[]): Promise<void> {
+        return this.firestore.batch().update(this, dataOrField, ...moreFieldsAndValues).commit();
+    }
+
+    delete(): Promise<void> {
+        return this.firestore.batch().delete(this).commit();
+    }
+
+    onSnapshot(...args: any[]): () => void {
+        return this.firestore.listen(this, args);
+    }
+
+    isEqual(other: MemoryDocumentReference): boolean {
+        return other instanceof MemoryDocumentReference && other.firestore === this.firestore && other.path === this.path;
+    }
+
+}
+
+function getUpdateChanges(dataOrField: DocumentData | string | firestore.FieldPath, moreFieldsAndValues: any[]): [string[], any][] {
+    if (typeof dataOrField === "string" || !isPlainObject(dataOrField)) {
+        let changes: [string[], any][] = [[getFieldSegments(dataOrField as string | firestore.FieldPath), moreFieldsAndValues[0]]];
+
+        for (let i = 1; i < moreFieldsAndValues.length; i += 2) {
+            changes.push([getFieldSegments(moreFieldsAndValues[i]), moreFieldsAndValues[i + 1]]);
+        }
+
+        return changes;
+    }
+
+    let data = dataOrField as DocumentData;
+
+    return Object.keys(data).map(key => [getFieldSegments(key), data[key]] as [string[], any]);
+}
+
+export class MemoryWriteBatch {
+
+    protected writes: PendingWrite[] = [];
+    protected committed: boolean = false;
+
+    constructor(readonly firestore: MemoryFirestore) {
+    }
+
+    set(documentRef: MemoryDocumentReference, data: DocumentData, options?: firestore.SetOptions): MemoryWriteBatch {
+        this.writes.push({type: "set", path: documentRef.path, data: cloneValue(data), merge: !!options && !!options.merge});
+        return this;
+    }
+
+    update(documentRef: MemoryDocumentReference, dataOrField: DocumentData | string | firestore.FieldPath, ...moreFieldsAndValues: any[]): MemoryWriteBatch {
+        this.writes.push({type: "update", path: documentRef.path, changes: getUpdateChanges(dataOrField, moreFieldsAndValues)});
+        return this;
+    }
+
+    delete(documentRef: MemoryDocumentReference): MemoryWriteBatch {
+        this.writes.push({type: "delete", path: documentRef.path});
+        return this;
+    }
+
+    commit(): Promise<void> {
+        if (this.committed) return Promise.reject(new Error("A write batch can only be committed once."));
+        this.committed = true;
+
+        return this.firestore.applyWrites(this.writes);
+    }
+
+}
+
+// no conflict detection: reads are not tracked and the update function runs exactly once
+export class MemoryTransaction {
+
+    protected batch: MemoryWriteBatch;
+
+    constructor(readonly firestore: MemoryFirestore) {
+        this.batch = firestore.batch();
+    }
+
+    get(documentRef: MemoryDocumentReference): Promise<MemoryDocumentSnapshot> {
+        return documentRef.get();
+    }
+
+    set(documentRef: MemoryDocumentReference, data: DocumentData, options?: firestore.SetOptions): MemoryTransaction {
+        this.batch.set(documentRef, data, options);
+        return this;
+    }
+
+    update(documentRef: MemoryDocumentReference, dataOrField: DocumentData | string | firestore.FieldPath, ...moreFieldsAndValues: any[]): MemoryTransaction {
+        this.batch.update(documentRef, dataOrField, ...moreFieldsAndValues);
+        return this;
+    }
+
+    delete(documentRef: MemoryDocumentReference): MemoryTransaction {
+        this.batch.delete(documentRef);
+        return this;
+    }
+
+    commit(): Promise<void> {
+        return this.batch.commit();
+    }
+
+}
+
+export class MemoryFirestore {
+
+    protected documents: Map<string, StoredDocument> = new Map();
+    protected listeners: SnapshotListener[] = [];
+    protected commitErrors: Error[] = [];
+    protected lastVersion: number = 0;
+    protected pending: Promise<void> = Promise.resolve();
+    protected metadata: MemorySnapshotMetadata = new MemorySnapshotMetadata();
+
+    asFirestore(): firestore.Firestore {
+        return this as any;
+    }
+
+    collection(collectionPath: string): MemoryCollectionReference {
+        return new MemoryCollectionReference(this, collectionPath);
+    }
+
+    doc(documentPath: string): MemoryDocumentReference {
+        return new MemoryDocumentReference(this, documentPath);
+    }
+
+    collectionGroup(collectionId: string): MemoryQuery {
+        if (collectionId.includes("/")) throw new Error(`Invalid collection id "${collectionId}".`);
+
+        return new MemoryQuery(this, collectionId, {filters: [], orders: []}, true);
+    }
+
+    batch(): MemoryWriteBatch {
+        return new MemoryWriteBatch(this);
+    }
+
+    async runTransaction<T>(updateFunction: (transaction: MemoryTransaction) => Promise<T>): Promise<T> {
+        let transaction = new MemoryTransaction(this);
+        let result = await updateFunction(transaction);
+
+        await transaction.commit();
+
+        return result;
+    }
+
+    async flush(): Promise<void> {
+        let pending: Promise<void>;
+
+        do {
+            pending = this.pending;
+            await pending;
+        } while (pending !== this.pending);
+    }
+
+    getData(documentPath: string): DocumentData | undefined {
+        let document = this.documents.get(splitPath(documentPath).join("/"));
+        return document && cloneValue(document.data);
+    }
+
+    getDocumentPaths(): string[] {
+        return Array.from(this.documents.keys()).sort(comparePaths);
+    }
+
+    injectRemoteChange(documentPath: string, data: DocumentData | null): Promise<void> {
+        let path = splitPath(documentPath).join("/");
+
+        if (data === null) {
+            this.documents.delete(path);
+        } else {
+            this.documents.set(path, {data: resolveFieldValue(cloneValue(data), undefined), version: ++this.lastVersion});
+        }
+
+        this.notifyListeners();
+
+        return this.flush();
+    }
+
+    injectSnapshotMetadata(metadata: { hasPendingWrites?: boolean, fromCache?: boolean }): Promise<void> {
+        this.metadata = new MemorySnapshotMetadata(
+            metadata.hasPendingWrites ?? this.metadata.hasPendingWrites,
+            metadata.fromCache ?? this.metadata.fromCache
+        );
+
+        this.notifyListeners();
+
+        return this.flush();
+    }
+
+    injectCommitError(error: Error | firestore.FirestoreErrorCode, count: number = 1) {
+        for (let i = 0; i < count; i++) {
+            this.commitErrors.push(typeof error === "string" ? createFirestoreError(error, `Injected ${error} error.`) : error);
+        }
+    }
+
+    injectListenerError(path: string, error: Error | firestore.FirestoreErrorCode): Promise<void> {
+        let targetPath = splitPath(path).join("/");
+        let listenerError = typeof error === "string" ? createFirestoreError(error, `Injected ${error} error.`) : error;
+
+        for (let listener of this.listeners.slice()) {
+            let listenerPath = listener.target instanceof MemoryDocumentReference ? listener.target.path :
+                splitPath(listener.target.collectionPath).join("/");
+
+            if (listenerPath === targetPath) {
+                this.removeListener(listener);
+                this.schedule(() => listener.onError?.(listenerError));
+            }
+        }
+
+        return this.flush();
+    }
+
+    readDocument(reference: MemoryDocumentReference): Promise<MemoryDocumentSnapshot> {
+        return Promise.resolve(this.createDocumentSnapshot(reference));
+    }
+
+    readQuery(query: MemoryQuery): Promise<MemoryQuerySnapshot> {
+        let documents = this.runQuery(query);
+
+        return Promise.resolve(new MemoryQuerySnapshot(query, documents, documents.map((document, index) =>
+            new MemoryDocumentChange("added", document, -1, index)
+        ), this.metadata));
+    }
+
+    applyWrites(writes: PendingWrite[]): Promise<void> {
+        let commitError = this.commitErrors.shift();
+        if (commitError) return Promise.reject(commitError);
+
+        let documents = new Map(this.documents);
+
+        for (let write of writes) {
+            let existing = documents.get(write.path);
+
+            if (write.type === "set") {
+                let data = write.merge && existing ? mergeValues(existing.data, write.data) : resolveFieldValue(write.data, undefined);
+                documents.set(write.path, {data, version: ++this.lastVersion});
+            } else if (write.type === "update") {
+                if (!existing) {
+                    return Promise.reject(createFirestoreError("not-found", `No document to update: ${write.path}`));
+                }
+
+                let data = cloneValue(existing.data);
+
+                for (let [segments, value] of write.changes) {
+                    setField(data, segments, value);
+                }
+
+                documents.set(write.path, {data, version: ++this.lastVersion});
+            } else {
+                documents.delete(write.path);
+            }
+        }
+
+        this.documents = documents;
+        this.notifyListeners();
+
+        return this.flush();
+    }
+
+    listen(target: MemoryQuery | MemoryDocumentReference, args: any[]): () => void {
+        let includeMetadataChanges = false;
+
+        if (isPlainObject(args[0]) && typeof args[0].next !== "function" && typeof args[0].error !== "function") {
+            includeMetadataChanges = !!args[0].includeMetadataChanges;
+            args = args.slice(1);
+        }
+
+        let onNext: (snapshot: any) => void;
+        let onError: ((error: Error) => void) | undefined;
+
+        if (typeof args[0] === "function") {
+            onNext = args[0];
+            onError = args[1];
+        } else {
+            let observer: SnapshotObserver<any> = args[0];
+            onNext = snapshot => observer.next?.(snapshot);
+            onError = observer.error && (error => observer.error!(error));
+        }
+
+        let listener: SnapshotListener = {
+            target,
+            onNext,
+            onError,
+            includeMetadataChanges,
+            previousDocuments: null,
+            active: true
+        };
+
+        this.listeners.push(listener);
+        this.notifyListener(listener);
+
+        return () => this.removeListener(listener);
+    }
+
+    protected removeListener(listener: SnapshotListener) {
+        listener.active = false;
+
+        let index = this.listeners.indexOf(listener);
+        if (index !== -1) this.listeners.splice(index, 1);
+    }
+
+    protected schedule(callback: () => void) {
+        this.pending = this.pending.then(() => {
+            try {
+                callback();
+            } catch (error) {
+                setTimeout(() => {
+                    throw error;
+                });
+            }
+        });
+    }
+
+    protected createDocumentSnapshot(reference: MemoryDocumentReference): MemoryDocumentSnapshot {
+        let document = this.documents.get(reference.path);
+
+        return new MemoryDocumentSnapshot(reference, document && cloneValue(document.data), document ? document.version : null, this.metadata);
+    }
+
+    protected runQuery(query: MemoryQuery): MemoryQueryDocumentSnapshot[] {
+        let documents: { path: string, data: DocumentData, version: number }[] = [];
+
+        for (let [path, document] of this.documents) {
+            if (query.matches(path, document.data)) {
+                documents.push({path, data: document.data, version: document.version});
+            }
+        }
+
+        documents.sort((a, b) => query.compareDocuments(a, b));
+
+        return query.applyBoundsAndLimit(documents).map(document =>
+            new MemoryQueryDocumentSnapshot(new MemoryDocumentReference(this, document.path), cloneValue(document.data), document.version, this.metadata)
+        );
+    }
+
+    protected notifyListeners() {
+        for (let listener of this.listeners.slice()) {
+            this.notifyListener(listener);
+        }
+    }
+
+    protected notifyListener(listener: SnapshotListener) {
+        if (listener.target instanceof MemoryDocumentReference) {
+            let snapshot = this.createDocumentSnapshot(listener.target);
+
+            let metadataChanged = listener.includeMetadataChanges && !!listener.previousMetadata && !listener.previousMetadata.isEqual(snapshot.metadata);
+
+            if (listener.previousVersion !== undefined && listener.previousVersion === snapshot.version && !metadataChanged) return;
+
+            listener.previousVersion = snapshot.version;
+            listener.previousMetadata = snapshot.metadata;
+            this.schedule(() => listener.active && listener.onNext(snapshot));
+        } else {
+            let query = listener.target;
+            let documents = this.runQuery(query);
+            let changes = this.getDocumentChanges(query, listener.previousDocuments, documents);
+
+            let metadata = this.metadata;
+            let metadataChanged = listener.includeMetadataChanges && !!listener.previousMetadata && !listener.previousMetadata.isEqual(metadata);
+
+            if (listener.previousDocuments !== null && changes.length === 0 && !metadataChanged) return;
+
+            listener.previousDocuments = documents;
+            listener.previousMetadata = metadata;
+            this.schedule(() => listener.active && listener.onNext(new MemoryQuerySnapshot(query, documents, changes, metadata)));
+        }
+    }
+
+    protected getDocumentChanges(query: MemoryQuery, previousDocuments: MemoryQueryDocumentSnapshot[] | null, documents: MemoryQueryDocumentSnapshot[]): MemoryDocumentChange[] {
+        if (previousDocuments === null) {
+            return documents.map((document, index) => new MemoryDocumentChange("added", document, -1, index));
+        }
+
+        let previousByPath = new Map(previousDocuments.map(document => [document.ref.path, document] as [string, MemoryQueryDocumentSnapshot]));
+        let currentByPath = new Map(documents.map(document => [document.ref.path, document] as [string, MemoryQueryDocumentSnapshot]));
+
+        let removed = previousDocuments.filter(document => !currentByPath.has(document.ref.path));
+        let added = documents.filter(document => !previousByPath.has(document.ref.path));
+        let modified = documents.filter(document => {
+            let previous = previousByPath.get(document.ref.path);
+            return previous !== undefined && previous.version !== document.version;
+        });
+
+        // indexes follow the SDK: removals, then additions, then modifications, each applied to a running sorted list
+        let indexTracker = previousDocuments.slice();
+        let changes: MemoryDocumentChange[] = [];
+        let toSortable = (document: MemoryQueryDocumentSnapshot) => ({path: document.ref.path, data: document.data()});
+
+        const insert = (document: MemoryQueryDocumentSnapshot): number => {
+            let index = indexTracker.findIndex(other => query.compareDocuments(toSortable(document), toSortable(other)) < 0);
+            if (index === -1) index = indexTracker.length;
+
+            indexTracker.splice(index, 0, document);
+
+            return index;
+        };
+
+        const remove = (path: string): number => {
+            let index = indexTracker.findIndex(other => other.ref.path === path);
+            indexTracker.splice(index, 1);
+
+            return index;
+        };
+
+        for (let document of removed) {
+            changes.push(new MemoryDocumentChange("removed", document, remove(document.ref.path), -1));
+        }
+
+        for (let document of added) {
+            changes.push(new MemoryDocumentChange("added", document, -1, insert(document)));
+        }
+
+        for (let document of modified) {
+            let oldIndex = remove(document.ref.path);
+            changes.push(new MemoryDocumentChange("modified", document, oldIndex, insert(document)));
+        }
+
+        return changes;
+    }
+
+}
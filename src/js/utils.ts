@@ -54,6 +54,10 @@ export function getAllPropertyKeys(obj: any): Set<string> {
     return keys;
 }
 
+export function isPlainObject(value: any): value is { [key: string]: any } {
+    return value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
 export function getProperty(obj: any, path: string[]): any {
     for (let part of path) {
         obj = obj[part];
@@ -78,4 +82,51 @@ export function setProperty(obj: any, value: any, path: string[]) {
     obj[path[path.length - 1]] = value;
 
     return origObj;
-}
\ No newline at end of file
+}
+
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, callback: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    let results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            let index = nextIndex++;
+            results[index] = await callback(items[index], index);
+        }
+    };
+
+    let workers: Promise<void>[] = [];
+
+    for (let i = 0; i < Math.min(Math.max(1, concurrency), items.length); i++) {
+        workers.push(worker());
+    }
+
+    await Promise.all(workers);
+
+    return results;
+}
+
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createConcurrencyLimiter(concurrency: number): ConcurrencyLimiter {
+    let active = 0;
+    let queue: (() => void)[] = [];
+
+    const next = () => {
+        if (active < Math.max(1, concurrency) && queue.length > 0) {
+            active++;
+            queue.shift()!();
+        }
+    };
+
+    return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+            Promise.resolve().then(task).then(resolve, reject).finally(() => {
+                active--;
+                next();
+            });
+        });
+
+        next();
+    });
+}
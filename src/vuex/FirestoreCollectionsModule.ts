@@ -1,6 +1,32 @@
 import {firestore} from "firebase/app";
-import {Getter, Mutation, State, VuexModule} from "../plugins/vuex/vuex-decorators";
-import {FirestoreObjectOptions, subscribeToCollection, updateCollectionFromSnapshot} from "../js/firestore-utils";
+import {Action, Getter, Mutation, State, VuexModule} from "../plugins/vuex/vuex-decorators";
+import {
+    CollectionIndex,
+    deleteDocument,
+    FirestoreObjectOptions,
+    getDocumentFromRefPath,
+    getDocumentsSyncMetadata,
+    getFirestore,
+    getQuerySnapshotSize,
+    getRefPathCollectionOptions,
+    getSyncMetadata,
+    isPathTemplate,
+    limitFirestoreObjectOptions,
+    NormalizedFirestoreObjectOptions,
+    PathParams,
+    resolvePathTemplate,
+    RetryPolicy,
+    RetryState,
+    setDocument,
+    setDocumentAtRefPath,
+    subscribeToCollection,
+    SyncMetadata,
+    reconcileCollectionFromSnapshot,
+    updateCollectionFromSnapshot,
+    updateDocument
+} from "../js/firestore-utils";
+import {FirestoreOperation, FirestoreOperationError, ValidationError} from "../js/firestore-errors";
+import {CollectionPersistenceOptions, loadPersistedCollection, persistCollection} from "../js/collection-persistence";
 
 export type FirestoreCollectionsModuleState<T> = {
     collections: Record<string, CollectionSyncedList<T>>;
@@ -10,47 +36,177 @@ export interface CollectionSyncedList<T> {
     list: T[];
     syncEnabled: boolean;
     syncing: boolean;
+    limit: number | null;
+    hasMore: boolean;
+    metadata: SyncMetadata;
+    documentsMetadata: Record<string, SyncMetadata>;
+    retry: RetryState | null;
+    stale: boolean;
+    error: any | null;
+    persistenceError: any | null;
+    lastSyncedAt: number | null;
+    subscriberCount: number;
 }
 
 interface CollectionSubscriber {
     onError?: (error: any) => void;
+    onWriteError?: (error: any, refPath: string[]) => void;
 }
 
-interface CollectionsInfo {
+interface SyncWaiter {
+    resolve: () => void;
+    reject: (error: any) => void;
+}
+
+interface CollectionsInfo<T extends object> {
     unsubscribeFromSync?: () => void;
+    unsubscribeFromPreviousSync?: () => void;
     firstSync: boolean;
+    index: CollectionIndex<T>;
     collectionSubscribers: CollectionSubscriber[];
     unsubscribeFromCollectionOptions?: () => void;
+    restored: boolean;
+    persistTimeout?: ReturnType<typeof setTimeout>;
+    syncWaiters: SyncWaiter[];
 }
 
 export default class FirestoreCollectionsModule<T extends object, ModuleState extends FirestoreCollectionsModuleState<T> = any, RootState = any> extends VuexModule<ModuleState, RootState> {
 
     @State collections: Record<string, CollectionSyncedList<T>> = {};
 
-    protected collectionsInfo: Record<string, CollectionsInfo> = {};
+    protected collectionsInfo: Record<string, CollectionsInfo<T>> = {};
+
+    protected collectionTemplates: Record<string, string> = {};
 
     @Getter
     get collectionOptions(): Record<string, FirestoreObjectOptions> {
         const options: Record<string, FirestoreObjectOptions> = {};
 
         for (let collectionPath of Object.keys(this.collections)) {
-            options[collectionPath] = this.mapCollectionOptions(collectionPath);
+            options[collectionPath] = this.mapCollectionOptions(collectionPath, this.collectionTemplates[collectionPath]);
         }
 
         return options;
     }
 
+    @Getter
+    get pathParams(): PathParams {
+        return this.mapPathParams();
+    }
+
+    @Getter
+    get collectionPath(): (template: string) => string | null {
+        return (template: string) => resolvePathTemplate(template, this.pathParams);
+    }
+
+    @Getter
+    get templateCollection(): (template: string) => CollectionSyncedList<T> | undefined {
+        return (template: string) => {
+            const collectionPath = this.collectionPath(template);
+
+            return collectionPath === null ? undefined : this.collections[collectionPath];
+        };
+    }
+
+    @Getter
+    get byId(): (collectionPath: string, id: string) => T | undefined {
+        return (collectionPath: string, id: string) => {
+            const collection = this.collections[collectionPath];
+
+            return collection && collection.list ? this.collectionsInfo[collectionPath].index.get(id) : undefined;
+        };
+    }
+
+    @Getter
+    get byField(): (collectionPath: string, field: string, value: any) => T[] {
+        return (collectionPath: string, field: string, value: any) => {
+            const collection = this.collections[collectionPath];
+
+            return collection && collection.list ? this.collectionsInfo[collectionPath].index.getByField(field, value) : [];
+        };
+    }
+
     protected constructor() {
         super();
     }
 
     protected unsubscribeWaitTime: number = 5000;
 
-    protected mapCollectionOptions(collectionPath: string): FirestoreObjectOptions {
+    protected persistDelay: number = 1000;
+
+    protected mapCollectionOptions(collectionPath: string, template?: string): FirestoreObjectOptions {
         return collectionPath;
     }
 
-    protected syncCollection(collectionPath: string, onError?: (error: any) => void): () => void {
+    protected mapPathParams(): PathParams {
+        return {};
+    }
+
+    protected mapCollectionIndexFields(collectionPath: string): string[] {
+        return [];
+    }
+
+    protected mapCollectionPageSize(collectionPath: string): number | null {
+        return null;
+    }
+
+    protected mapCollectionRetryPolicy(collectionPath: string): Partial<RetryPolicy> | undefined {
+        return {};
+    }
+
+    protected mapCollectionPersistence(collectionPath: string): CollectionPersistenceOptions | null {
+        return null;
+    }
+
+    protected getCollectionSyncOptions(collectionPath: string): FirestoreObjectOptions {
+        const collection = this.collections[collectionPath];
+        const options = this.collectionOptions[collectionPath];
+
+        return collection.limit === null ? options : limitFirestoreObjectOptions(options, collection.limit);
+    }
+
+    protected syncCollection(collectionPath: string, onError?: (error: any) => void, onWriteError?: (error: any, refPath: string[]) => void): () => void {
+        const subscriber: CollectionSubscriber = {onError: onError, onWriteError: onWriteError};
+
+        if (isPathTemplate(collectionPath)) return this.syncCollectionTemplate(collectionPath, subscriber);
+
+        this.addCollectionSubscriber(collectionPath, subscriber);
+
+        return () => {
+            setTimeout(() => this.removeCollectionSubscriber(collectionPath, subscriber), this.unsubscribeWaitTime);
+        };
+    }
+
+    protected syncCollectionTemplate(template: string, subscriber: CollectionSubscriber): () => void {
+        let collectionPath: string | null = null;
+
+        const resubscribe = (newCollectionPath: string | null) => {
+            if (collectionPath !== null) this.removeCollectionSubscriber(collectionPath, subscriber, true);
+
+            collectionPath = newCollectionPath;
+
+            if (collectionPath !== null) {
+                this.collectionTemplates[collectionPath] = template;
+                this.addCollectionSubscriber(collectionPath, subscriber);
+            }
+        };
+
+        resubscribe(this.collectionPath(template));
+
+        const unwatch = this.store.watch(() => this.collectionPath(template), resubscribe);
+
+        return () => {
+            unwatch();
+
+            const lastCollectionPath = collectionPath;
+
+            if (lastCollectionPath !== null) {
+                setTimeout(() => this.removeCollectionSubscriber(lastCollectionPath, subscriber), this.unsubscribeWaitTime);
+            }
+        };
+    }
+
+    protected addCollectionSubscriber(collectionPath: string, subscriber: CollectionSubscriber) {
         let collection = this.collections[collectionPath];
         let collectionInfo = this.collectionsInfo[collectionPath];
 
@@ -59,23 +215,70 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
             collectionInfo = this.collectionsInfo[collectionPath];
         }
 
-        const subscriber: CollectionSubscriber = {onError: onError};
+        collectionInfo.collectionSubscribers.push(subscriber);
+        this.setSubscriberCount(collectionPath, collectionInfo.collectionSubscribers.length);
+    }
 
-        const unsubscribe = () => {
-            setTimeout(() => {
-                const collectionInfo = this.collectionsInfo[collectionPath];
+    protected removeCollectionSubscriber(collectionPath: string, subscriber: CollectionSubscriber, dropCollection: boolean = false) {
+        const collectionInfo = this.collectionsInfo[collectionPath];
 
-                if (collectionInfo) {
-                    let index = collectionInfo.collectionSubscribers.indexOf(subscriber);
-                    if (index !== -1) collectionInfo.collectionSubscribers.splice(index, 1);
-                    if (collectionInfo.collectionSubscribers.length === 0) this.stopCollectionSync(collectionPath);
+        if (collectionInfo) {
+            let index = collectionInfo.collectionSubscribers.indexOf(subscriber);
+            if (index !== -1) collectionInfo.collectionSubscribers.splice(index, 1);
+            this.setSubscriberCount(collectionPath, collectionInfo.collectionSubscribers.length);
+
+            if (collectionInfo.collectionSubscribers.length === 0) {
+                this.stopCollectionSync(collectionPath, dropCollection);
+
+                if (dropCollection) {
+                    this.setSyncStatus(collectionPath, false, false, true);
+                    delete this.collectionTemplates[collectionPath];
                 }
-            }, this.unsubscribeWaitTime);
-        };
+            }
+        }
+    }
 
-        collectionInfo.collectionSubscribers.push(subscriber);
+    whenSynced(collectionPath: string): Promise<void> {
+        if (isPathTemplate(collectionPath)) {
+            const resolvedPath = this.collectionPath(collectionPath);
+
+            if (resolvedPath === null) {
+                return Promise.reject(new ValidationError(`The collection path ${collectionPath} has unresolved parameters.`, "subscribe", collectionPath));
+            }
+
+            collectionPath = resolvedPath;
+        }
+
+        const collection = this.collections[collectionPath];
+
+        if (collection && collection.syncEnabled && !collection.syncing) return Promise.resolve();
+        if (collection && !collection.syncEnabled && collection.error) return Promise.reject(collection.error);
 
-        return unsubscribe;
+        const unsubscribe = collection && collection.syncEnabled ? null : this.syncCollection(collectionPath);
+
+        const synced = new Promise<void>((resolve, reject) => {
+            this.collectionsInfo[collectionPath].syncWaiters.push({resolve, reject});
+        });
+
+        if (unsubscribe) synced.then(unsubscribe, unsubscribe);
+
+        return synced;
+    }
+
+    protected settleSyncWaiters(collectionPath: string, error?: any) {
+        const collectionInfo = this.collectionsInfo[collectionPath];
+        if (!collectionInfo) return;
+
+        const waiters = collectionInfo.syncWaiters;
+        collectionInfo.syncWaiters = [];
+
+        for (let waiter of waiters) {
+            if (error === undefined) {
+                waiter.resolve();
+            } else {
+                waiter.reject(error);
+            }
+        }
     }
 
     protected startCollectionSync(collectionPath: string) {
@@ -87,27 +290,13 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
         collection = this.collections[collectionPath];
         const collectionInfo = this.collectionsInfo[collectionPath];
 
+        if (!collectionInfo.restored) {
+            this.restoreCollection(collectionPath).catch(error => this.setPersistenceError(collectionPath, error));
+        }
+
         if (!collection.syncEnabled) {
             collectionInfo.firstSync = true;
-            collectionInfo.unsubscribeFromSync = subscribeToCollection(
-                this.collectionOptions[collectionPath],
-                (refPath: string[], snapshot: firestore.QuerySnapshot) => {
-                    this.updateCollectionFromSnapshot(collectionPath, refPath, snapshot);
-                },
-                (error) => {
-                    const collectionInfo = this.collectionsInfo[collectionPath];
-
-                    this.stopCollectionSync(collectionPath);
-
-                    if (collectionInfo) {
-                        for (let subscriber of collectionInfo.collectionSubscribers) {
-                            subscriber.onError?.(error);
-                        }
-
-                        this.clearCollectionSubscribers(collectionPath);
-                    }
-                }
-            );
+            collectionInfo.unsubscribeFromSync = this.subscribeCollection(collectionPath);
             this.setSyncStatus(collectionPath, true, true);
         }
 
@@ -126,6 +315,186 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
         return collection;
     }
 
+    @Action
+    async restoreCollection(collectionPath: string) {
+        const persistence = this.mapCollectionPersistence(collectionPath);
+
+        if (!this.collections[collectionPath])
+            this.createCollection(collectionPath);
+
+        this.collectionsInfo[collectionPath].restored = true;
+
+        if (!persistence) return;
+
+        const list = await loadPersistedCollection<T>(collectionPath, persistence);
+        const collection = this.collections[collectionPath];
+        const collectionInfo = this.collectionsInfo[collectionPath];
+
+        if (list && collection && (!collection.syncEnabled || collectionInfo.firstSync)) {
+            this.hydrateCollection(collectionPath, list);
+        }
+    }
+
+    protected schedulePersist(collectionPath: string) {
+        const persistence = this.mapCollectionPersistence(collectionPath);
+        const collectionInfo = this.collectionsInfo[collectionPath];
+
+        if (!persistence || !collectionInfo) return;
+
+        if (collectionInfo.persistTimeout !== undefined) clearTimeout(collectionInfo.persistTimeout);
+
+        collectionInfo.persistTimeout = setTimeout(() => {
+            const collection = this.collections[collectionPath];
+            delete collectionInfo.persistTimeout;
+
+            if (collection) {
+                persistCollection(collectionPath, collection.list, persistence).then(
+                    () => this.setPersistenceError(collectionPath, null),
+                    error => this.setPersistenceError(collectionPath, error)
+                );
+            }
+        }, this.persistDelay);
+    }
+
+    protected loadMore(collectionPath: string) {
+        const collection = this.collections[collectionPath];
+        const pageSize = this.mapCollectionPageSize(collectionPath);
+
+        if (!collection || collection.limit === null || pageSize === null || !collection.hasMore) return;
+
+        this.setCollectionLimit(collectionPath, collection.limit + pageSize);
+
+        if (collection.syncEnabled) {
+            const collectionInfo = this.collectionsInfo[collectionPath];
+            const previousUnsubscribes = [collectionInfo.unsubscribeFromPreviousSync, collectionInfo.unsubscribeFromSync];
+
+            collectionInfo.unsubscribeFromPreviousSync = () => previousUnsubscribes.forEach(unsubscribe => unsubscribe?.());
+            collectionInfo.unsubscribeFromSync = this.subscribeCollection(collectionPath, true);
+        }
+    }
+
+    @Action
+    async addItem(collectionPath: string, item: Partial<T>, parentRefPath: string[] = []): Promise<firestore.DocumentReference> {
+        const options = this.getRefPathOptions(collectionPath, parentRefPath, "add");
+
+        if (options.collectionGroup) {
+            throw new ValidationError("Documents cannot be added to a collection group.", "add", options.collectionPath);
+        }
+
+        const reference = getFirestore()!.collection(options.collectionPath).doc();
+        const document: any = {...item, id: reference.id};
+
+        for (let subcollectionOptions of options.subcollections) {
+            if (document[subcollectionOptions.name] === undefined) document[subcollectionOptions.name] = [];
+        }
+
+        await this.writeOptimistically(collectionPath, [...parentRefPath, reference.id], () => document, () => setDocument(document, options));
+
+        return reference;
+    }
+
+    @Action
+    async updateItem(collectionPath: string, refPath: string[], data: Partial<T>) {
+        const options = this.getRefPathOptions(collectionPath, refPath, "update");
+
+        await this.writeOptimistically(collectionPath, refPath, previous => previous && {...previous, ...data},
+            () => updateDocument(refPath[refPath.length - 1], data as any, options));
+    }
+
+    @Action
+    async removeItem(collectionPath: string, refPath: string[]) {
+        const options = this.getRefPathOptions(collectionPath, refPath, "delete");
+
+        await this.writeOptimistically(collectionPath, refPath, () => null,
+            () => deleteDocument(refPath[refPath.length - 1], options));
+    }
+
+    protected getRefPathOptions(collectionPath: string, refPath: string[], operation: FirestoreOperation): NormalizedFirestoreObjectOptions {
+        const options = getRefPathCollectionOptions(this.collectionOptions[collectionPath] || this.mapCollectionOptions(collectionPath), refPath);
+
+        if (!options) {
+            throw new ValidationError(`The ref path ${refPath.join("/")} does not match the subcollections of ${collectionPath}.`, operation, collectionPath);
+        }
+
+        return options;
+    }
+
+    protected async writeOptimistically(collectionPath: string, refPath: string[], change: (previous: T | null) => T | null, write: () => Promise<any>) {
+        const collection = this.collections[collectionPath];
+        const collectionInfo = this.collectionsInfo[collectionPath];
+        const previous = collection ? getDocumentFromRefPath(collection.list, this.collectionOptions[collectionPath], refPath, collectionInfo.index) : null;
+        const document = change(previous ? previous.document : null);
+
+        if (previous || document) this.setLocalDocument(collectionPath, refPath, document);
+
+        try {
+            await write();
+        } catch (error) {
+            if (previous || document) this.setLocalDocument(collectionPath, refPath, previous ? previous.document : null, previous ? previous.position : undefined);
+
+            const collectionInfo = this.collectionsInfo[collectionPath];
+
+            if (collectionInfo) {
+                for (let subscriber of collectionInfo.collectionSubscribers) {
+                    subscriber.onWriteError?.(error, refPath);
+                }
+            }
+
+            throw error;
+        }
+    }
+
+    protected subscribeCollection(collectionPath: string, reconcile: boolean = false): () => void {
+        return subscribeToCollection(
+            this.getCollectionSyncOptions(collectionPath),
+            (refPath: string[], snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot) => {
+                const reconciling = reconcile && refPath.length === 0;
+
+                this.updateCollectionFromSnapshot(collectionPath, refPath, snapshot, reconciling);
+                this.schedulePersist(collectionPath);
+
+                if (reconciling) {
+                    reconcile = false;
+                    Promise.resolve().then(() => this.releasePreviousSync(collectionPath));
+                }
+
+                if (refPath.length === 0) this.settleSyncWaiters(collectionPath);
+            },
+            (error) => {
+                const collectionInfo = this.collectionsInfo[collectionPath];
+
+                this.setSyncError(collectionPath, error);
+                this.stopCollectionSync(collectionPath);
+                this.settleSyncWaiters(collectionPath, error);
+
+                if (collectionInfo) {
+                    for (let subscriber of collectionInfo.collectionSubscribers) {
+                        subscriber.onError?.(error);
+                    }
+
+                    this.clearCollectionSubscribers(collectionPath);
+                }
+            },
+            undefined,
+            {
+                includeMetadataChanges: true,
+                retryPolicy: this.mapCollectionRetryPolicy(collectionPath),
+                onRetryStateChange: (retry: RetryState | null) => {
+                    this.setRetryState(collectionPath, retry);
+                }
+            }
+        );
+    }
+
+    protected releasePreviousSync(collectionPath: string) {
+        const collectionInfo = this.collectionsInfo[collectionPath];
+
+        if (collectionInfo && collectionInfo.unsubscribeFromPreviousSync) {
+            collectionInfo.unsubscribeFromPreviousSync();
+            delete collectionInfo.unsubscribeFromPreviousSync;
+        }
+    }
+
     protected stopCollectionSync(collectionPath: string, resetCollection?: boolean) {
         const collection = this.collections[collectionPath];
         const collectionInfo = this.collectionsInfo[collectionPath];
@@ -136,6 +505,8 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
                 delete collectionInfo.unsubscribeFromSync;
             }
 
+            this.releasePreviousSync(collectionPath);
+
             if (collectionInfo.unsubscribeFromCollectionOptions) {
                 collectionInfo.unsubscribeFromCollectionOptions();
                 delete collectionInfo.unsubscribeFromCollectionOptions;
@@ -149,7 +520,10 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
     protected createCollection(collectionPath: string) {
         this.collectionsInfo[collectionPath] = {
             firstSync: false,
-            collectionSubscribers: []
+            index: new CollectionIndex<T>(this.mapCollectionIndexFields(collectionPath)),
+            collectionSubscribers: [],
+            restored: false,
+            syncWaiters: []
         };
 
         this.collections = {
@@ -157,29 +531,114 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
             [collectionPath]: {
                 list: [],
                 syncEnabled: false,
-                syncing: false
+                syncing: false,
+                limit: this.mapCollectionPageSize(collectionPath),
+                hasMore: false,
+                metadata: {
+                    hasPendingWrites: false,
+                    fromCache: true,
+                    lastServerSync: null
+                },
+                documentsMetadata: {},
+                retry: null,
+                stale: false,
+                error: null,
+                persistenceError: null,
+                lastSyncedAt: null,
+                subscriberCount: 0
             } as CollectionSyncedList<T>
         };
     }
 
     @Mutation
-    protected updateCollectionFromSnapshot(collectionPath: string, refPath: string[], snapshot: firestore.QuerySnapshot) {
+    protected updateCollectionFromSnapshot(collectionPath: string, refPath: string[], snapshot: firestore.QuerySnapshot | firestore.DocumentSnapshot, reconcile: boolean = false) {
         const collection = this.collections[collectionPath];
         const collectionInfo = this.collectionsInfo[collectionPath];
 
         if (collection) {
-            collection.list = updateCollectionFromSnapshot(
-                collectionInfo.firstSync ? [] : collection.list,
-                this.collectionOptions[collectionPath],
-                refPath,
-                snapshot
-            );
+            if (reconcile) {
+                collection.list = reconcileCollectionFromSnapshot(
+                    collection.list,
+                    this.collectionOptions[collectionPath],
+                    snapshot as firestore.QuerySnapshot,
+                    collectionInfo.index
+                );
+            } else {
+                if (collectionInfo.firstSync) collectionInfo.index.clear();
+
+                collection.list = updateCollectionFromSnapshot(
+                    collectionInfo.firstSync ? [] : collection.list,
+                    this.collectionOptions[collectionPath],
+                    refPath,
+                    snapshot,
+                    collectionInfo.index
+                );
+            }
+
+            if (refPath.length === 0) {
+                const querySnapshot = snapshot as firestore.QuerySnapshot;
+
+                if (collection.limit !== null) {
+                    collection.hasMore = getQuerySnapshotSize(querySnapshot) >= collection.limit;
+                }
+
+                collection.metadata = getSyncMetadata(querySnapshot.metadata, collection.metadata);
+                if (!querySnapshot.metadata.fromCache) collection.stale = false;
+                collection.lastSyncedAt = Date.now();
+                collection.documentsMetadata = getDocumentsSyncMetadata(querySnapshot, this.collectionOptions[collectionPath], collection.documentsMetadata);
+            }
 
             collectionInfo.firstSync = false;
             collection.syncing = false;
         }
     }
 
+    @Mutation
+    protected setLocalDocument(collectionPath: string, refPath: string[], document: T | null, position?: number) {
+        const collection = this.collections[collectionPath];
+        const collectionInfo = this.collectionsInfo[collectionPath];
+
+        if (collection) {
+            setDocumentAtRefPath(collection.list, this.collectionOptions[collectionPath], refPath, document, collectionInfo.index, position);
+        }
+    }
+
+    @Mutation
+    protected hydrateCollection(collectionPath: string, list: T[]) {
+        const collection = this.collections[collectionPath];
+        const collectionInfo = this.collectionsInfo[collectionPath];
+
+        if (collection) {
+            collection.list = list;
+            collection.stale = true;
+            collectionInfo.index.rebuild(list, this.collectionOptions[collectionPath]);
+        }
+    }
+
+    @Mutation
+    protected setRetryState(collectionPath: string, retry: RetryState | null) {
+        const collection = this.collections[collectionPath];
+        const collectionInfo = this.collectionsInfo[collectionPath];
+
+        if (collection) {
+            collection.retry = retry;
+
+            if (retry) {
+                collectionInfo.firstSync = true;
+                collection.syncing = true;
+            }
+        }
+    }
+
+    @Mutation
+    protected setCollectionLimit(collectionPath: string, limit: number | null) {
+        const collection = this.collections[collectionPath];
+
+        if (collection) {
+            collection.limit = limit;
+        }
+    }
+
     @Mutation
     protected setSyncStatus(collectionPath: string, enabled: boolean, syncing: boolean, resetCollection: boolean = false) {
         const collection = this.collections[collectionPath];
@@ -188,20 +647,61 @@ export default class FirestoreCollectionsModule<T extends object, ModuleState ex
             collection.syncEnabled = enabled;
             collection.syncing = syncing;
 
+            if (enabled) {
+                collection.retry = null;
+                collection.error = null;
+            }
+
             if (resetCollection) {
-                delete this.collections[collectionPath];
+                this.settleSyncWaiters(collectionPath, new FirestoreOperationError(`The sync of ${collectionPath} was stopped.`, "cancelled", "subscribe", collectionPath));
+
+                const {[collectionPath]: removed, ...collections} = this.collections;
+
+                this.collections = collections;
                 delete this.collectionsInfo[collectionPath];
             }
         }
     }
 
+    @Mutation
+    protected setSyncError(collectionPath: string, error: any) {
+        const collection = this.collections[collectionPath];
+
+        if (collection) {
+            collection.error = error;
+        }
+    }
+
+    @Mutation
+    protected setPersistenceError(collectionPath: string, error: any | null) {
+        const collection = this.collections[collectionPath];
+
+        if (collection) {
+            collection.persistenceError = error;
+        }
+    }
+
+    @Mutation
+    protected setSubscriberCount(collectionPath: string, subscriberCount: number) {
+        const collection = this.collections[collectionPath];
+
+        if (collection) {
+            collection.subscriberCount = subscriberCount;
+        }
+    }
+
     @Mutation
     protected clearCollectionSubscribers(collectionPath: string) {
+        const collection = this.collections[collectionPath];
         const collectionInfo = this.collectionsInfo[collectionPath];
 
         if (collectionInfo) {
             collectionInfo.collectionSubscribers = [];
         }
+
+        if (collection) {
+            collection.subscriberCount = 0;
+        }
     }
 
 }
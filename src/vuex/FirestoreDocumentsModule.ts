@@ -0,0 +1,283 @@
+import {firestore} from "firebase/app";
+import {Getter, Mutation, State, VuexModule} from "../plugins/vuex/vuex-decorators";
+import {
+    FirestoreObjectOptions,
+    getSyncMetadata,
+    RetryPolicy,
+    RetryState,
+    subscribeToDocument,
+    SyncMetadata,
+    updateDocumentFromSnapshot
+} from "../js/firestore-utils";
+
+export type FirestoreDocumentsModuleState<T> = {
+    documents: Record<string, DocumentSyncedItem<T>>;
+};
+
+export interface DocumentSyncedItem<T> {
+    document: T | null;
+    syncEnabled: boolean;
+    syncing: boolean;
+    metadata: SyncMetadata;
+    retry: RetryState | null;
+}
+
+interface DocumentSubscriber {
+    onError?: (error: any) => void;
+}
+
+interface PendingSnapshot {
+    refPath: string[];
+    snapshot: firestore.DocumentSnapshot | firestore.QuerySnapshot;
+    isDocument: boolean;
+}
+
+interface DocumentsInfo {
+    unsubscribeFromSync?: () => void;
+    firstSync: boolean;
+    pendingSnapshots: PendingSnapshot[];
+    documentSubscribers: DocumentSubscriber[];
+    unsubscribeFromDocumentOptions?: () => void;
+}
+
+export default class FirestoreDocumentsModule<T extends object, ModuleState extends FirestoreDocumentsModuleState<T> = any, RootState = any> extends VuexModule<ModuleState, RootState> {
+
+    @State documents: Record<string, DocumentSyncedItem<T>> = {};
+
+    protected documentsInfo: Record<string, DocumentsInfo> = {};
+
+    @Getter
+    get documentOptions(): Record<string, FirestoreObjectOptions> {
+        const options: Record<string, FirestoreObjectOptions> = {};
+
+        for (let documentPath of Object.keys(this.documents)) {
+            options[documentPath] = this.mapDocumentOptions(documentPath);
+        }
+
+        return options;
+    }
+
+    protected constructor() {
+        super();
+    }
+
+    protected unsubscribeWaitTime: number = 5000;
+
+    // the options describe the collection holding the document
+    protected mapDocumentOptions(documentPath: string): FirestoreObjectOptions {
+        return documentPath.substring(0, documentPath.lastIndexOf("/"));
+    }
+
+    protected mapDocumentRetryPolicy(documentPath: string): Partial<RetryPolicy> | undefined {
+        return {};
+    }
+
+    protected syncDocument(documentPath: string, onError?: (error: any) => void): () => void {
+        let document = this.documents[documentPath];
+        let documentInfo = this.documentsInfo[documentPath];
+
+        if (!document || !document.syncEnabled || documentInfo.documentSubscribers.length === 0) {
+            this.startDocumentSync(documentPath);
+            documentInfo = this.documentsInfo[documentPath];
+        }
+
+        const subscriber: DocumentSubscriber = {onError: onError};
+
+        const unsubscribe = () => {
+            setTimeout(() => {
+                const documentInfo = this.documentsInfo[documentPath];
+
+                if (documentInfo) {
+                    let index = documentInfo.documentSubscribers.indexOf(subscriber);
+                    if (index !== -1) documentInfo.documentSubscribers.splice(index, 1);
+                    if (documentInfo.documentSubscribers.length === 0) this.stopDocumentSync(documentPath);
+                }
+            }, this.unsubscribeWaitTime);
+        };
+
+        documentInfo.documentSubscribers.push(subscriber);
+
+        return unsubscribe;
+    }
+
+    protected startDocumentSync(documentPath: string) {
+        let document = this.documents[documentPath];
+
+        if (!document)
+            this.createDocument(documentPath);
+
+        document = this.documents[documentPath];
+        const documentInfo = this.documentsInfo[documentPath];
+
+        if (!document.syncEnabled) {
+            documentInfo.firstSync = true;
+            documentInfo.pendingSnapshots = [];
+            documentInfo.unsubscribeFromSync = subscribeToDocument(
+                documentPath.substring(documentPath.lastIndexOf("/") + 1),
+                this.documentOptions[documentPath],
+                (refPath: string[], snapshot: firestore.DocumentSnapshot | firestore.QuerySnapshot, isDocument: boolean) => {
+                    this.updateDocumentFromSnapshot(documentPath, refPath, snapshot, isDocument);
+                },
+                (error) => {
+                    const documentInfo = this.documentsInfo[documentPath];
+
+                    this.stopDocumentSync(documentPath);
+
+                    if (documentInfo) {
+                        for (let subscriber of documentInfo.documentSubscribers) {
+                            subscriber.onError?.(error);
+                        }
+
+                        this.clearDocumentSubscribers(documentPath);
+                    }
+                },
+                undefined,
+                {
+                    includeMetadataChanges: true,
+                    retryPolicy: this.mapDocumentRetryPolicy(documentPath),
+                    onRetryStateChange: (retry: RetryState | null) => {
+                        this.setRetryState(documentPath, retry);
+                    }
+                }
+            );
+            this.setSyncStatus(documentPath, true, true);
+        }
+
+        documentInfo.unsubscribeFromDocumentOptions = this.store.watch(
+            () => this.documentOptions[documentPath],
+            () => {
+                const document = this.documents[documentPath];
+
+                if (document && document.syncEnabled) {
+                    this.stopDocumentSync(documentPath);
+                    this.startDocumentSync(documentPath);
+                }
+            }
+        );
+
+        return document;
+    }
+
+    protected stopDocumentSync(documentPath: string, resetDocument?: boolean) {
+        const document = this.documents[documentPath];
+        const documentInfo = this.documentsInfo[documentPath];
+
+        if (document && document.syncEnabled) {
+            if (documentInfo.unsubscribeFromSync) {
+                documentInfo.unsubscribeFromSync();
+                delete documentInfo.unsubscribeFromSync;
+            }
+
+            if (documentInfo.unsubscribeFromDocumentOptions) {
+                documentInfo.unsubscribeFromDocumentOptions();
+                delete documentInfo.unsubscribeFromDocumentOptions;
+            }
+
+            this.setSyncStatus(documentPath, false, false, resetDocument);
+        }
+    }
+
+    @Mutation
+    protected createDocument(documentPath: string) {
+        this.documentsInfo[documentPath] = {
+            firstSync: false,
+            pendingSnapshots: [],
+            documentSubscribers: []
+        };
+
+        this.documents = {
+            ...this.documents,
+            [documentPath]: {
+                document: null,
+                syncEnabled: false,
+                syncing: false,
+                metadata: {
+                    hasPendingWrites: false,
+                    fromCache: true,
+                    lastServerSync: null
+                },
+                retry: null
+            } as DocumentSyncedItem<T>
+        };
+    }
+
+    @Mutation
+    protected updateDocumentFromSnapshot(documentPath: string, refPath: string[], snapshot: firestore.DocumentSnapshot | firestore.QuerySnapshot, isDocument: boolean) {
+        const document = this.documents[documentPath];
+        const documentInfo = this.documentsInfo[documentPath];
+
+        if (document) {
+            const current = documentInfo.firstSync ? null : document.document;
+            const options = this.documentOptions[documentPath];
+
+            if (refPath.length === 0) {
+                const documentSnapshot = snapshot as firestore.DocumentSnapshot;
+
+                document.document = documentSnapshot.exists ?
+                    updateDocumentFromSnapshot(current as T, options, refPath, snapshot, isDocument) :
+                    null;
+                document.metadata = getSyncMetadata(documentSnapshot.metadata, document.metadata);
+
+                if (document.document) {
+                    for (let pending of documentInfo.pendingSnapshots) {
+                        document.document = updateDocumentFromSnapshot(document.document, options, pending.refPath, pending.snapshot, pending.isDocument);
+                    }
+
+                    documentInfo.pendingSnapshots = [];
+                }
+
+                documentInfo.firstSync = false;
+                document.syncing = false;
+            } else if (current) {
+                document.document = updateDocumentFromSnapshot(current, options, refPath, snapshot, isDocument);
+            } else {
+                documentInfo.pendingSnapshots.push({refPath, snapshot, isDocument});
+            }
+        }
+    }
+
+    @Mutation
+    protected setRetryState(documentPath: string, retry: RetryState | null) {
+        const document = this.documents[documentPath];
+        const documentInfo = this.documentsInfo[documentPath];
+
+        if (document) {
+            document.retry = retry;
+
+            if (retry) {
+                documentInfo.firstSync = true;
+                documentInfo.pendingSnapshots = [];
+                document.syncing = true;
+            }
+        }
+    }
+
+    @Mutation
+    protected setSyncStatus(documentPath: string, enabled: boolean, syncing: boolean, resetDocument: boolean = false) {
+        const document = this.documents[documentPath];
+
+        if (document) {
+            document.syncEnabled = enabled;
+            document.syncing = syncing;
+
+            if (enabled) document.retry = null;
+
+            if (resetDocument) {
+                const {[documentPath]: removed, ...documents} = this.documents;
+
+                this.documents = documents;
+                delete this.documentsInfo[documentPath];
+            }
+        }
+    }
+
+    @Mutation
+    protected clearDocumentSubscribers(documentPath: string) {
+        const documentInfo = this.documentsInfo[documentPath];
+
+        if (documentInfo) {
+            documentInfo.documentSubscribers = [];
+        }
+    }
+
+}
@@ -0,0 +1,133 @@
+import "reflect-metadata";
+import "firebase/firestore";
+import Vue from "vue";
+import Vuex, {Store} from "vuex";
+import VuexDecoratorsPlugin from "../../src/plugins/vuex/vuex-decorators";
+import FirestoreCollectionsModule from "../../src/vuex/FirestoreCollectionsModule";
+import {MemoryFirestore, MemoryTimestamp} from "../../src/js/memory-firestore";
+import {CollectionPersistenceOptions, loadPersistedCollection, MemoryPersistenceStorage} from "../../src/js/collection-persistence";
+import {getProxyTarget} from "../../src/js/proxy";
+import {FirestoreObjectOptions, setCollection, setFirestore, timestampConverter} from "../../src/js/firestore-utils";
+
+Vue.use(Vuex);
+
+type Menu = {
+    id: string;
+    title: string;
+    createdAt: Date;
+};
+
+const menuOptions = {collectionPath: "menus", converter: timestampConverter};
+
+class MenusModule extends FirestoreCollectionsModule<Menu> {
+
+    constructor(readonly storage: MemoryPersistenceStorage) {
+        super();
+        this.unsubscribeWaitTime = 0;
+        this.persistDelay = 0;
+        this.initVuexModule();
+    }
+
+    sync(collectionPath: string): () => void {
+        return this.syncCollection(collectionPath);
+    }
+
+    protected mapCollectionOptions(collectionPath: string): FirestoreObjectOptions {
+        return {...menuOptions, collectionPath};
+    }
+
+    protected mapCollectionIndexFields(collectionPath: string): string[] {
+        return ["createdAt"];
+    }
+
+    protected mapCollectionPersistence(collectionPath: string): CollectionPersistenceOptions | null {
+        return {storage: this.storage};
+    }
+
+}
+
+function wait(milliseconds: number = 0): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+describe("FirestoreCollectionsModule", () => {
+
+    let memory: MemoryFirestore;
+    let storage: MemoryPersistenceStorage;
+    let menus: MenusModule;
+
+    beforeEach(async () => {
+        memory = new MemoryFirestore();
+        storage = new MemoryPersistenceStorage();
+        setFirestore(memory.asFirestore());
+
+        await setCollection([
+            {id: "m1", title: "Lunch", createdAt: new Date(1000)},
+            {id: "m2", title: "Dinner", createdAt: new Date(2000)}
+        ], menuOptions);
+
+        menus = new MenusModule(storage);
+        new Store({modules: {menus: menus.getModule()}, plugins: [VuexDecoratorsPlugin]});
+        await wait();
+    });
+
+    it("syncs a collection and converts timestamps to dates", async () => {
+        let unsubscribe = menus.sync("menus");
+        await menus.whenSynced("menus");
+
+        let collection = menus.collections.menus;
+
+        expect(collection.list.map(menu => menu.title)).toEqual(["Lunch", "Dinner"]);
+        expect(getProxyTarget(collection.list[0].createdAt).getTime()).toBe(1000);
+        expect(typeof collection.lastSyncedAt).toBe("number");
+        expect(typeof collection.metadata.lastServerSync).toBe("number");
+        expect(menus.byField("menus", "createdAt", new Date(2000)).map(menu => menu.id)).toEqual(["m2"]);
+
+        unsubscribe();
+    });
+
+    it("writes items that hold dates from the state", async () => {
+        let unsubscribe = menus.sync("menus");
+        await menus.whenSynced("menus");
+
+        await menus.updateItem("menus", ["m1"], {title: "Brunch"});
+        await menus.removeItem("menus", ["m2"]);
+        await memory.flush();
+
+        expect(memory.getData("menus/m1")).toEqual({title: "Brunch", createdAt: new MemoryTimestamp(1, 0)});
+        expect(memory.getDocumentPaths()).toEqual(["menus/m1"]);
+        expect(menus.collections.menus.list.map(menu => menu.title)).toEqual(["Brunch"]);
+
+        unsubscribe();
+    });
+
+    it("persists the synced list and surfaces persistence errors", async () => {
+        let unsubscribe = menus.sync("menus");
+        await menus.whenSynced("menus");
+        await wait();
+
+        let persisted = await loadPersistedCollection<Menu>("menus", {storage});
+
+        expect(persisted!.map(menu => menu.createdAt)).toEqual([new Date(1000), new Date(2000)]);
+        expect(menus.collections.menus.persistenceError).toBe(null);
+
+        storage.setItem = () => Promise.reject(new Error("The quota has been exceeded."));
+        await memory.injectRemoteChange("menus/m3", {title: "Breakfast", createdAt: new MemoryTimestamp(3, 0)});
+        await wait();
+
+        expect(menus.collections.menus.persistenceError.message).toBe("The quota has been exceeded.");
+
+        unsubscribe();
+    });
+
+    it("syncs a collection nobody is syncing until it is ready", async () => {
+        await menus.whenSynced("menus");
+
+        expect(menus.collections.menus.list).toHaveLength(2);
+
+        await wait();
+
+        expect(menus.collections.menus.syncEnabled).toBe(false);
+    });
+
+});
@@ -0,0 +1,80 @@
+import "reflect-metadata";
+import "firebase/firestore";
+import Vue from "vue";
+import Vuex, {Store} from "vuex";
+import VuexDecoratorsPlugin from "../../src/plugins/vuex/vuex-decorators";
+import FirestoreDocumentsModule from "../../src/vuex/FirestoreDocumentsModule";
+import {MemoryFirestore} from "../../src/js/memory-firestore";
+import {deleteDocument, FirestoreObjectOptions, restoreDocument, setCollection, setFirestore} from "../../src/js/firestore-utils";
+
+Vue.use(Vuex);
+
+type Menu = {
+    id: string;
+    title: string;
+    dishes: { id: string, name: string }[];
+};
+
+const menuOptions = {collectionPath: "menus", subcollections: ["dishes"], softDelete: true};
+
+class MenuModule extends FirestoreDocumentsModule<Menu> {
+
+    constructor() {
+        super();
+        this.unsubscribeWaitTime = 0;
+        this.initVuexModule();
+    }
+
+    sync(documentPath: string): () => void {
+        return this.syncDocument(documentPath);
+    }
+
+    protected mapDocumentOptions(documentPath: string): FirestoreObjectOptions {
+        return menuOptions;
+    }
+
+}
+
+describe("FirestoreDocumentsModule", () => {
+
+    let memory: MemoryFirestore;
+    let menu: MenuModule;
+
+    beforeEach(async () => {
+        memory = new MemoryFirestore();
+        setFirestore(memory.asFirestore());
+
+        await setCollection([{id: "m1", title: "Lunch", dishes: [{id: "d1", name: "Soup"}]}], menuOptions);
+
+        menu = new MenuModule();
+        new Store({modules: {menu: menu.getModule()}, plugins: [VuexDecoratorsPlugin]});
+        await new Promise(resolve => setTimeout(resolve));
+    });
+
+    it("syncs a document with its subcollections", async () => {
+        let unsubscribe = menu.sync("menus/m1");
+        await memory.flush();
+
+        expect(menu.documents["menus/m1"].document).toMatchObject({id: "m1", title: "Lunch", dishes: [{id: "d1", name: "Soup"}]});
+
+        unsubscribe();
+    });
+
+    it("exposes a soft deleted document as missing", async () => {
+        let unsubscribe = menu.sync("menus/m1");
+        await memory.flush();
+
+        await deleteDocument("m1", menuOptions);
+        await memory.flush();
+
+        expect(menu.documents["menus/m1"].document).toBe(null);
+
+        await restoreDocument("m1", menuOptions);
+        await memory.flush();
+
+        expect(menu.documents["menus/m1"].document).toMatchObject({id: "m1", dishes: [{id: "d1"}]});
+
+        unsubscribe();
+    });
+
+});
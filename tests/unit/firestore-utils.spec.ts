@@ -0,0 +1,165 @@
+import {firestore} from "firebase/app";
+import "firebase/firestore";
+import {MemoryFirestore} from "../../src/js/memory-firestore";
+import {DocumentNotFoundError} from "../../src/js/firestore-errors";
+import {
+    DatabaseDocument,
+    DatabaseDocumentWithId,
+    deleteDocument,
+    dryRunSetCollection,
+    FirestoreObjectOptions,
+    getCollection,
+    getCollectionPage,
+    getDocument,
+    getPooledListenerCount,
+    restoreDocument,
+    setCollection,
+    setFirestore,
+    subscribeToCollection,
+    subscribeToDocument,
+    updateDocument
+} from "../../src/js/firestore-utils";
+
+const menuOptions = {collectionPath: "menus", subcollections: ["dishes"]};
+
+describe("firestore-utils", () => {
+
+    let memory: MemoryFirestore;
+
+    beforeEach(async () => {
+        memory = new MemoryFirestore();
+        setFirestore(memory.asFirestore());
+
+        await setCollection([
+            {id: "m1", title: "Lunch", dishes: [{id: "d1", name: "Soup"}, {id: "d2", name: "Salad"}]},
+            {id: "m2", title: "Dinner", dishes: []}
+        ], menuOptions);
+    });
+
+    it("writes and loads documents with their subcollections", async () => {
+        expect(memory.getDocumentPaths()).toEqual(["menus/m1", "menus/m1/dishes/d1", "menus/m1/dishes/d2", "menus/m2"]);
+        expect(await getDocument("m1", menuOptions)).toEqual({
+            id: "m1",
+            title: "Lunch",
+            dishes: [{id: "d1", name: "Soup"}, {id: "d2", name: "Salad"}]
+        });
+    });
+
+    describe("updateDocument", () => {
+
+        it("writes only the changed fields and subdocuments", async () => {
+            await memory.injectRemoteChange("menus/m1", {title: "Lunch", note: "kept"});
+
+            await updateDocument("m1", {title: "Brunch", dishes: [{id: "d1", name: "Soup"}]}, menuOptions);
+
+            expect(memory.getData("menus/m1")).toEqual({title: "Brunch", note: "kept"});
+            expect(memory.getDocumentPaths()).toEqual(["menus/m1", "menus/m1/dishes/d1", "menus/m2"]);
+        });
+
+        it("reports a missing document as a failed update", async () => {
+            let error = await updateDocument("missing", {title: "Brunch"}, menuOptions).catch(error => error);
+
+            expect(error).toBeInstanceOf(DocumentNotFoundError);
+            expect(error.operation).toBe("update");
+        });
+
+    });
+
+    describe("delete hooks", () => {
+
+        let deleted: [string, DatabaseDocument][];
+        let hookedOptions: FirestoreObjectOptions;
+
+        beforeEach(() => {
+            deleted = [];
+            hookedOptions = {
+                ...menuOptions,
+                hooks: {beforeDelete: (reference, previous) => deleted.push([reference.path, previous])}
+            };
+        });
+
+        it("passes the fields of the deleted document to beforeDelete", async () => {
+            await deleteDocument("m1", hookedOptions);
+
+            expect(deleted.find(([path]) => path === "menus/m1")).toEqual(["menus/m1", {
+                id: "m1",
+                title: "Lunch",
+                dishes: [{id: "d1", name: "Soup"}, {id: "d2", name: "Salad"}]
+            }]);
+            expect(memory.getDocumentPaths()).toEqual(["menus/m2"]);
+        });
+
+        it("plans a mirrored write without running hooks or writing", async () => {
+            let plan = await dryRunSetCollection([{id: "m1", title: "Lunch", dishes: []}], hookedOptions, undefined, {mirror: true});
+
+            expect(deleted).toEqual([]);
+            expect(plan.deleteCount).toBe(3);
+            expect(memory.getDocumentPaths()).toHaveLength(4);
+        });
+
+    });
+
+    describe("soft delete", () => {
+
+        const softOptions: FirestoreObjectOptions = {...menuOptions, softDelete: true};
+
+        it("hides soft deleted documents from loads and subscriptions", async () => {
+            let collectionIds: string[][] = [];
+            let documentExists: boolean[] = [];
+
+            let unsubscribeCollection = subscribeToCollection(softOptions, (refPath, snapshot) => {
+                if (refPath.length === 0) collectionIds.push((snapshot as firestore.QuerySnapshot).docs.map(doc => doc.id));
+            });
+            let unsubscribeDocument = subscribeToDocument("m2", softOptions, (refPath, snapshot) => {
+                if (refPath.length === 0) documentExists.push((snapshot as firestore.DocumentSnapshot).exists);
+            });
+            await memory.flush();
+
+            await deleteDocument("m2", softOptions);
+            await memory.flush();
+
+            expect(memory.getData("menus/m2")).toMatchObject({deleted: true});
+            expect((await getCollection<DatabaseDocumentWithId>(softOptions)).map(menu => menu.id)).toEqual(["m1"]);
+
+            await restoreDocument("m2", softOptions);
+            await memory.flush();
+            unsubscribeCollection();
+            unsubscribeDocument();
+
+            expect(collectionIds).toEqual([["m1", "m2"], ["m1"], ["m1", "m2"]]);
+            expect(documentExists).toEqual([true, false, true]);
+        });
+
+    });
+
+    it("pages through a collection with cursors", async () => {
+        let first = await getCollectionPage<DatabaseDocumentWithId>("menus", undefined, {pageSize: 1});
+        let second = await getCollectionPage<DatabaseDocumentWithId>("menus", undefined, {pageSize: 1, cursor: first.cursor});
+        let third = await getCollectionPage<DatabaseDocumentWithId>("menus", undefined, {pageSize: 1, cursor: second.cursor});
+
+        expect([...first.items, ...second.items].map(menu => menu.id)).toEqual(["m1", "m2"]);
+        expect(third).toEqual({items: [], cursor: null});
+    });
+
+    it("shares one listener between subscribers with and without metadata changes", async () => {
+        let plain: number[] = [];
+        let withMetadata: boolean[] = [];
+
+        let unsubscribePlain = subscribeToCollection("menus", (refPath, snapshot) => plain.push((snapshot as firestore.QuerySnapshot).size));
+        let unsubscribeMetadata = subscribeToCollection("menus", (refPath, snapshot) => withMetadata.push(snapshot.metadata.fromCache),
+            undefined, undefined, {includeMetadataChanges: true});
+        await memory.flush();
+
+        expect(getPooledListenerCount()).toBe(1);
+
+        await memory.injectSnapshotMetadata({fromCache: true});
+        await memory.flush();
+        unsubscribePlain();
+        unsubscribeMetadata();
+
+        expect(plain).toEqual([2]);
+        expect(withMetadata).toEqual([false, true]);
+        expect(getPooledListenerCount()).toBe(0);
+    });
+
+});
@@ -0,0 +1,168 @@
+import firebase, {firestore} from "firebase/app";
+import "firebase/firestore";
+import {MemoryFirestore, MemoryTimestamp} from "../../src/js/memory-firestore";
+
+function listenToQuery(query: firestore.Query): { snapshots: firestore.QuerySnapshot[], unsubscribe: () => void } {
+    let snapshots: firestore.QuerySnapshot[] = [];
+    let unsubscribe = query.onSnapshot(snapshot => snapshots.push(snapshot));
+
+    return {snapshots, unsubscribe};
+}
+
+function describeChanges(snapshot: firestore.QuerySnapshot): string[] {
+    return snapshot.docChanges().map(change => `${change.type} ${change.doc.id} ${change.oldIndex} ${change.newIndex}`);
+}
+
+describe("MemoryFirestore", () => {
+
+    let memory: MemoryFirestore;
+    let db: firestore.Firestore;
+
+    beforeEach(() => {
+        memory = new MemoryFirestore();
+        db = memory.asFirestore();
+    });
+
+    describe("docChanges", () => {
+
+        it("reports every document as added in the first snapshot", async () => {
+            await db.doc("dishes/b").set({rank: 2});
+            await db.doc("dishes/a").set({rank: 1});
+
+            let {snapshots, unsubscribe} = listenToQuery(db.collection("dishes").orderBy("rank"));
+            await memory.flush();
+            unsubscribe();
+
+            expect(describeChanges(snapshots[0])).toEqual(["added a -1 0", "added b -1 1"]);
+        });
+
+        it("computes indexes against the running list like the SDK", async () => {
+            await db.doc("dishes/a").set({rank: 1});
+            await db.doc("dishes/b").set({rank: 2});
+            await db.doc("dishes/c").set({rank: 3});
+
+            let {snapshots, unsubscribe} = listenToQuery(db.collection("dishes").orderBy("rank"));
+            await memory.flush();
+
+            let batch = db.batch();
+            batch.delete(db.doc("dishes/a"));
+            batch.set(db.doc("dishes/d"), {rank: 0});
+            batch.update(db.doc("dishes/c"), {rank: 1.5});
+            await batch.commit();
+            await memory.flush();
+            unsubscribe();
+
+            expect(snapshots).toHaveLength(2);
+            expect(describeChanges(snapshots[1])).toEqual(["removed a 0 -1", "added d -1 0", "modified c 2 1"]);
+            expect(snapshots[1].docs.map(doc => doc.id)).toEqual(["d", "c", "b"]);
+        });
+
+        it("skips snapshots without changes unless metadata changes are requested", async () => {
+            await db.doc("dishes/a").set({rank: 1});
+
+            let plain = listenToQuery(db.collection("dishes"));
+            let metadata: firestore.QuerySnapshot[] = [];
+            let unsubscribe = db.collection("dishes").onSnapshot({includeMetadataChanges: true}, snapshot => metadata.push(snapshot));
+            await memory.flush();
+
+            await memory.injectSnapshotMetadata({fromCache: true});
+            plain.unsubscribe();
+            unsubscribe();
+
+            expect(plain.snapshots).toHaveLength(1);
+            expect(metadata).toHaveLength(2);
+            expect(metadata[1].metadata.fromCache).toBe(true);
+            expect(metadata[1].docChanges()).toEqual([]);
+        });
+
+    });
+
+    describe("batches", () => {
+
+        it("applies all writes of a batch in a single snapshot", async () => {
+            let {snapshots, unsubscribe} = listenToQuery(db.collection("dishes"));
+            await memory.flush();
+
+            let batch = db.batch();
+            batch.set(db.doc("dishes/a"), {title: "Soup"});
+            batch.set(db.doc("dishes/b"), {title: "Salad"});
+            await batch.commit();
+            await memory.flush();
+            unsubscribe();
+
+            expect(snapshots.map(snapshot => snapshot.size)).toEqual([0, 2]);
+        });
+
+        it("leaves the data untouched when a write of the batch fails", async () => {
+            await db.doc("dishes/a").set({title: "Soup"});
+
+            let batch = db.batch();
+            batch.update(db.doc("dishes/a"), {title: "Stew"});
+            batch.update(db.doc("dishes/missing"), {title: "Salad"});
+
+            await expect(batch.commit()).rejects.toMatchObject({code: "not-found"});
+            expect(memory.getData("dishes/a")).toEqual({title: "Soup"});
+        });
+
+        it("rejects commits with injected errors", async () => {
+            memory.injectCommitError("unavailable");
+
+            await expect(db.doc("dishes/a").set({title: "Soup"})).rejects.toMatchObject({code: "unavailable"});
+            await db.doc("dishes/a").set({title: "Soup"});
+
+            expect(memory.getDocumentPaths()).toEqual(["dishes/a"]);
+        });
+
+        it("updates nested fields through field path segments", async () => {
+            await db.doc("dishes/a").set({prices: {"1.5": 10, small: 5}});
+
+            await db.doc("dishes/a").update(
+                new firebase.firestore.FieldPath("prices", "1.5"), 12,
+                new firebase.firestore.FieldPath("prices", "small"), firebase.firestore.FieldValue.delete()
+            );
+
+            expect(memory.getData("dishes/a")).toEqual({prices: {"1.5": 12}});
+        });
+
+    });
+
+    describe("cursors", () => {
+
+        beforeEach(async () => {
+            let batch = db.batch();
+
+            for (let rank = 1; rank <= 5; rank++) {
+                batch.set(db.doc(`dishes/d${rank}`), {rank, created: new MemoryTimestamp(rank, 0)});
+            }
+
+            await batch.commit();
+        });
+
+        async function getIds(query: firestore.Query): Promise<string[]> {
+            return (await query.get()).docs.map(doc => doc.id);
+        }
+
+        it("applies value bounds inclusively and exclusively", async () => {
+            let query = db.collection("dishes").orderBy("rank");
+
+            expect(await getIds(query.startAt(2).endBefore(4))).toEqual(["d2", "d3"]);
+            expect(await getIds(query.startAfter(2).endAt(4))).toEqual(["d3", "d4"]);
+        });
+
+        it("applies snapshot bounds on the ordered fields", async () => {
+            let query = db.collection("dishes").orderBy("created", "desc");
+            let first = await query.limit(2).get();
+
+            expect(first.docs.map(doc => doc.id)).toEqual(["d5", "d4"]);
+            expect(await getIds(query.startAfter(first.docs[1]).limit(2))).toEqual(["d3", "d2"]);
+        });
+
+        it("orders by document id when no order is given", async () => {
+            let first = await db.collection("dishes").limit(3).get();
+
+            expect(await getIds(db.collection("dishes").startAfter(first.docs[2]))).toEqual(["d4", "d5"]);
+        });
+
+    });
+
+});